@@ -24,7 +24,11 @@ module.exports = {
     "parserOptions": {
         "project": [
             "./lean4-infoview-api/tsconfig.json",
+            "./lean4-infoview-api/test/tsconfig.json",
             "./lean4-infoview/tsconfig.json",
+            "./lean4-infoview/test/tsconfig.json",
+            "./lean4-client/tsconfig.json",
+            "./lean4-client/test/tsconfig.json",
             "./vscode-lean4/tsconfig.json",
             "./vscode-lean4/webview/tsconfig.json"
         ],
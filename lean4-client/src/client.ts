@@ -0,0 +1,193 @@
+import { ChildProcess } from 'child_process';
+import { pathToFileURL } from 'url';
+import {
+    createMessageConnection,
+    Diagnostic,
+    DidChangeTextDocumentNotification,
+    DidCloseTextDocumentNotification,
+    DidOpenTextDocumentNotification,
+    DocumentUri,
+    Emitter,
+    ExitNotification,
+    InitializedNotification,
+    InitializeRequest,
+    InitializeResult,
+    MessageConnection,
+    PublishDiagnosticsNotification,
+    ShutdownRequest,
+} from 'vscode-languageserver-protocol/node';
+import type { LeanFileProgressProcessingInfo } from '@leanprover/infoview-api';
+import { resolveServerCommand, ServerLaunchOptions, spawnServer } from './launch';
+import { LeanServerNotifications } from './notifications';
+
+export interface LeanServerClientOptions extends ServerLaunchOptions {
+    /** Time (in milliseconds) the server waits after a change before it elaborates the file. */
+    editDelay?: number;
+    /** Receives everything the server writes to its standard error output. */
+    stderr?: (data: string) => void;
+}
+
+/** Time (in milliseconds) we wait for the server to exit after asking it to, before killing it. */
+const exitTimeoutMs = 5000;
+
+/**
+ * A client for the Lean 4 language server which does not depend on VS Code, for example to drive the
+ * server from scripts or CI. The server is started in the same way as the editor starts it.
+ */
+export class LeanServerClient {
+    private process?: ChildProcess;
+    private connection?: MessageConnection;
+    private versions: Map<DocumentUri, number> = new Map();
+
+    initializeResult?: InitializeResult;
+
+    /** What the server reported about each file. */
+    readonly notifications = new LeanServerNotifications();
+
+    /** The latest progress the server reported for each file. */
+    get progress(): Map<DocumentUri, LeanFileProgressProcessingInfo[]> {
+        return this.notifications.progress;
+    }
+
+    /** The latest diagnostics the server reported for each file. */
+    get diagnostics(): Map<DocumentUri, Diagnostic[]> {
+        return this.notifications.diagnostics;
+    }
+
+    progressChanged = this.notifications.progressChanged;
+    diagnosticsChanged = this.notifications.diagnosticsChanged;
+    /** Fires on all notifications of the server that are not part of LSP, for example the `$/lean/..` ones. */
+    customNotification = this.notifications.customNotification;
+
+    private stoppedEmitter = new Emitter<number | null>();
+    /** Fires with the exit code when the server process exits. */
+    stopped = this.stoppedEmitter.event;
+
+    constructor(private options: LeanServerClientOptions = {}) {}
+
+    isRunning(): boolean {
+        return this.connection !== undefined;
+    }
+
+    /** Starts the server and waits until it is initialized. */
+    async start(): Promise<InitializeResult> {
+        if (this.isRunning()) throw new Error('The Lean server is already running');
+
+        const cmd = await resolveServerCommand(this.options);
+        const { process: proc, reader, writer } = spawnServer(cmd, this.options.stderr, this.options.log);
+
+        const connection = createMessageConnection(reader, writer);
+        connection.onNotification(PublishDiagnosticsNotification.type, (params) => this.notifications.handleDiagnostics(params));
+        connection.onNotification(this.notifications.handleNotification);
+        proc.on('exit', (code) => {
+            this.options.log?.(`Lean server exited with code ${code}`);
+            this.connection?.dispose();
+            this.connection = undefined;
+            this.process = undefined;
+            this.stoppedEmitter.fire(code);
+        });
+        connection.listen();
+        this.process = proc;
+        this.connection = connection;
+
+        this.initializeResult = await connection.sendRequest(InitializeRequest.type, {
+            processId: process.pid,
+            rootUri: cmd.cwd ? pathToFileURL(cmd.cwd).toString() : null,
+            capabilities: {},
+            initializationOptions: {
+                editDelay: this.options.editDelay ?? 200, hasWidgets: true,
+            },
+            workspaceFolders: null,
+        });
+        await connection.sendNotification(InitializedNotification.type, {});
+        return this.initializeResult;
+    }
+
+    /** Asks the server to shut down and waits until it exited. */
+    async stop(): Promise<void> {
+        const proc = this.process;
+        const connection = this.connection;
+        if (!proc || !connection) return;
+        const exited = new Promise<void>(resolve => proc.on('exit', () => resolve()));
+        const timeout = setTimeout(() => proc.kill(), exitTimeoutMs);
+        try {
+            await connection.sendRequest(ShutdownRequest.type);
+            await connection.sendNotification(ExitNotification.type);
+        } catch (e) {
+            this.options.log?.(`Error stopping the Lean server: ${e}`);
+            proc.kill();
+        }
+        await exited;
+        clearTimeout(timeout);
+        this.versions.clear();
+        this.notifications.clear();
+    }
+
+    private getConnection(): MessageConnection {
+        if (!this.connection) throw new Error('The Lean server is not running');
+        return this.connection;
+    }
+
+    /** Opens a file on the server, which starts a `lean --worker` process elaborating it. */
+    async openDocument(uri: DocumentUri, text: string, languageId: string = 'lean4'): Promise<void> {
+        this.versions.set(uri, 1);
+        this.notifications.clearFile(uri);
+        await this.getConnection().sendNotification(DidOpenTextDocumentNotification.type, {
+            textDocument: { uri, languageId, version: 1, text },
+        });
+    }
+
+    /** Replaces the contents of an open file. */
+    async changeDocument(uri: DocumentUri, text: string): Promise<void> {
+        const version = (this.versions.get(uri) ?? 0) + 1;
+        this.versions.set(uri, version);
+        this.notifications.clearProgress(uri);
+        await this.getConnection().sendNotification(DidChangeTextDocumentNotification.type, {
+            textDocument: { uri, version },
+            contentChanges: [{ text }],
+        });
+    }
+
+    async closeDocument(uri: DocumentUri): Promise<void> {
+        this.versions.delete(uri);
+        this.notifications.clearFile(uri);
+        await this.getConnection().sendNotification(DidCloseTextDocumentNotification.type, {
+            textDocument: { uri },
+        });
+    }
+
+    /**
+     * Waits until the server reports that it finished processing the given file,
+     * and returns the diagnostics it reported for it.
+     */
+    waitForDiagnostics(uri: DocumentUri): Promise<Diagnostic[]> {
+        return new Promise((resolve, reject) => {
+            const done = () => this.progress.get(uri)?.length === 0;
+            if (done()) {
+                resolve(this.diagnostics.get(uri) ?? []);
+                return;
+            }
+            const subscriptions = [
+                this.progressChanged(() => {
+                    if (!done()) return;
+                    subscriptions.forEach(s => s.dispose());
+                    resolve(this.diagnostics.get(uri) ?? []);
+                }),
+                this.stopped(code => {
+                    subscriptions.forEach(s => s.dispose());
+                    reject(new Error(`The Lean server exited with code ${code}`));
+                }),
+            ];
+        });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+    sendRequest(method: string, params: any): Promise<any> {
+        return this.getConnection().sendRequest(method, params);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+    sendNotification(method: string, params: any): Promise<void> {
+        return this.getConnection().sendNotification(method, params);
+    }
+}
@@ -0,0 +1,5 @@
+export * from './client'
+export * from './launch'
+export * from './toolchain'
+export * from './lakeErrors'
+export * from './notifications'
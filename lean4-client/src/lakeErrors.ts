@@ -0,0 +1,51 @@
+/** A message that `lake` printed while loading the package configuration. */
+export interface LakeMessage {
+    /** The file the message is about as printed by `lake`, e.g. `./lakefile.lean`, if it has a position. */
+    file?: string;
+    /** 1-based line, like in the messages of `lean`. */
+    line: number;
+    /** 0-based column. */
+    column: number;
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+// `error: ./lakefile.lean:3:2: error: unknown identifier 'foo'`, the leading `error: ` is only printed by some versions.
+const positionedMessage = /^(?:error: )?(.+?):(\d+):(\d+): (error|warning): (.*)$/;
+// `error: could not resolve 'HEAD' to a commit`
+const unpositionedMessage = /^(error|warning): (.*)$/;
+
+/**
+ * Extracts the errors and warnings from the output of a `lake` command, e.g. of a `lake serve` which
+ * failed because the lakefile does not compile or a dependency is missing.
+ * Lines which do not start a new message are appended to the previous one.
+ */
+export function parseLakeOutput(output: string): LakeMessage[] {
+    const messages: LakeMessage[] = [];
+    let current: LakeMessage | undefined;
+    for (const line of output.split(/\r?\n/)) {
+        let match = positionedMessage.exec(line);
+        if (match) {
+            current = {
+                file: match[1],
+                line: parseInt(match[2]),
+                column: parseInt(match[3]),
+                severity: match[4] as 'error' | 'warning',
+                message: match[5],
+            };
+            messages.push(current);
+            continue;
+        }
+        match = unpositionedMessage.exec(line);
+        if (line.startsWith('info: ')) {
+            // progress like `info: cloning ...` ends the previous message.
+            current = undefined;
+        } else if (match) {
+            current = { line: 1, column: 0, severity: match[1] as 'error' | 'warning', message: match[2] };
+            messages.push(current);
+        } else if (current && line.trim().length > 0) {
+            current.message += '\n' + line;
+        }
+    }
+    return messages;
+}
@@ -0,0 +1,121 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import { join } from 'path';
+import { StreamMessageReader, StreamMessageWriter } from 'vscode-languageserver-protocol/node';
+import { checkLakeVersion, Logger, toolchainReleaseDate } from './toolchain';
+
+export interface ServerLaunchOptions {
+    /** The root folder of the Lean package, or `undefined` for files which do not belong to a package. */
+    folderPath?: string;
+    /** The folder containing the `bin` folder of the Lean toolchain. By default `lean` and `lake` are taken from the `PATH`. */
+    toolchainPath?: string;
+    /** The `lake` executable to use instead of the one of the toolchain. */
+    lakePath?: string;
+    /** Whether to start the server using `lake serve` when the package has a `lakefile.lean`. */
+    lakeEnabled?: boolean;
+    /** An elan toolchain override like `leanprover/lean4:nightly`, passed to the executables as `+version`. */
+    toolchainVersion?: string;
+    /**
+     * The toolchain of the package from its `lean-toolchain` file, like `leanprover/lean4:nightly-2022-02-01`.
+     * If its release date is known, it decides whether `lake serve` is available, otherwise `lake --version` is run.
+     */
+    packageToolchain?: string;
+    /** Additional arguments for the server. */
+    serverArgs?: string[];
+    /** The environment of the server, `process.env` by default. */
+    env?: NodeJS.ProcessEnv;
+    /** The directory the server writes its log files to, if logging should be enabled. */
+    serverLoggingPath?: string;
+    log?: Logger;
+}
+
+export interface ServerCommand {
+    command: string;
+    args: string[];
+    cwd?: string;
+    env: NodeJS.ProcessEnv;
+    /** Whether the server is started using `lake serve` rather than `lean --server`. */
+    useLake: boolean;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+    return await fs.promises.access(path).then(() => true, () => false);
+}
+
+/**
+ * Decides whether the server for the given package is started using `lake serve` or `lean --server`,
+ * and returns the corresponding command line.
+ */
+export async function resolveServerCommand(options: ServerLaunchOptions): Promise<ServerCommand> {
+    const { folderPath, toolchainPath, toolchainVersion, packageToolchain, log } = options;
+    const env = Object.assign({}, options.env ?? process.env);
+    if (options.serverLoggingPath) {
+        env.LEAN_SERVER_LOG_DIR = options.serverLoggingPath;
+    }
+
+    let executable = options.lakePath ||
+        (toolchainPath ? join(toolchainPath, 'bin', 'lake') : 'lake');
+
+    // check if the lake process will start
+    let useLake = !!options.lakeEnabled && folderPath !== undefined;
+    if (useLake && folderPath !== undefined) {
+        let knownDate = false;
+        if (!await fileExists(join(folderPath, 'lakefile.lean'))) {
+            useLake = false;
+        } else {
+            // see if we can avoid the more expensive checkLakeVersion call.
+            const date = packageToolchain ? toolchainReleaseDate(packageToolchain) : undefined;
+            if (date) {
+                // Feb 16 2022 is when the 3.1.0.pre was released.
+                useLake = date >= new Date(2022, 1, 16);
+                knownDate = true;
+            }
+            if (useLake && !knownDate) {
+                useLake = await checkLakeVersion(executable, toolchainVersion, folderPath, log);
+            }
+        }
+    }
+
+    if (!useLake) {
+        executable = toolchainPath ? join(toolchainPath, 'bin', 'lean') : 'lean';
+    }
+
+    let args = toolchainVersion ? ['+' + toolchainVersion] : [];
+    if (useLake) {
+        args = args.concat(['serve', '--']);
+    } else {
+        args = args.concat(['--server']);
+    }
+
+    // Add folder name to command-line so that it shows up in `ps aux`.
+    args.push(folderPath ?? 'untitled');
+
+    return {
+        command: executable,
+        args: args.concat(options.serverArgs ?? []),
+        cwd: folderPath,
+        env,
+        useLake,
+    };
+}
+
+export interface ServerProcess {
+    process: ChildProcess;
+    reader: StreamMessageReader;
+    writer: StreamMessageWriter;
+}
+
+/**
+ * Starts the server using the given command, see {@link resolveServerCommand}, and returns the streams
+ * to talk to it. Everything the server writes to its standard error output is passed to `stderr`.
+ */
+export function spawnServer(cmd: ServerCommand, stderr?: (data: string) => void, log?: Logger): ServerProcess {
+    log?.(`Starting '${cmd.command} ${cmd.args.join(' ')}'`);
+    const proc = spawn(cmd.command, cmd.args, { cwd: cmd.cwd, env: cmd.env });
+    if (proc.pid === undefined) {
+        throw new Error(`Launching server using command ${cmd.command} failed.`);
+    }
+    proc.on('error', (e) => log?.(`Lean server process error: ${e}`));
+    proc.stderr.on('data', (data) => stderr?.((data as Buffer).toString()));
+    return { process: proc, reader: new StreamMessageReader(proc.stdout), writer: new StreamMessageWriter(proc.stdin) };
+}
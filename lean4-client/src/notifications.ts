@@ -0,0 +1,68 @@
+import { Diagnostic, DocumentUri, Emitter, PublishDiagnosticsParams } from 'vscode-languageserver-protocol';
+import type { LeanFileProgressParams, LeanFileProgressProcessingInfo } from '@leanprover/infoview-api';
+
+/**
+ * Keeps track of what the server reported about each file, i.e. the `$/lean/fileProgress` and
+ * `textDocument/publishDiagnostics` notifications, and forwards all notifications that are not part of LSP.
+ * Both {@link LeanServerClient} and the client of the VS Code extension are built on it.
+ */
+export class LeanServerNotifications {
+    /** The latest progress the server reported for each file. */
+    progress: Map<DocumentUri, LeanFileProgressProcessingInfo[]> = new Map();
+
+    /** The latest diagnostics the server reported for each file. */
+    diagnostics: Map<DocumentUri, Diagnostic[]> = new Map();
+
+    private progressChangedEmitter = new Emitter<[DocumentUri, LeanFileProgressProcessingInfo[]]>();
+    progressChanged = this.progressChangedEmitter.event;
+
+    private diagnosticsEmitter = new Emitter<PublishDiagnosticsParams>();
+    diagnosticsChanged = this.diagnosticsEmitter.event;
+
+    private customNotificationEmitter = new Emitter<{method: string, params: any}>();
+    /** Fires on all notifications of the server that are not part of LSP, for example the `$/lean/..` ones. */
+    customNotification = this.customNotificationEmitter.event;
+
+    /**
+     * Handles every notification of the server which has no handler of its own,
+     * to be registered as the `StarNotificationHandler` of the connection.
+     */
+    // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+    handleNotification = (method: string, params: any): void => {
+        if (method === '$/lean/fileProgress') {
+            const { textDocument, processing } = params as LeanFileProgressParams;
+            this.progress.set(textDocument.uri, processing);
+            this.progressChangedEmitter.fire([textDocument.uri, processing]);
+        }
+        this.customNotificationEmitter.fire({method, params});
+    };
+
+    /** Handles a `textDocument/publishDiagnostics` notification. */
+    handleDiagnostics(params: PublishDiagnosticsParams): void {
+        this.diagnostics.set(params.uri, params.diagnostics);
+        this.diagnosticsEmitter.fire(params);
+    }
+
+    /** Forgets the progress of the given file, e.g. when its worker was closed or it changed. */
+    clearProgress(uri: DocumentUri): void {
+        this.progress.delete(uri);
+    }
+
+    /** Forgets everything about the given file, e.g. when it was closed. */
+    clearFile(uri: DocumentUri): void {
+        this.progress.delete(uri);
+        this.diagnostics.delete(uri);
+    }
+
+    /** Forgets everything, e.g. when the server stopped. */
+    clear(): void {
+        this.progress.clear();
+        this.diagnostics.clear();
+    }
+
+    dispose(): void {
+        this.progressChangedEmitter.dispose();
+        this.diagnosticsEmitter.dispose();
+        this.customNotificationEmitter.dispose();
+    }
+}
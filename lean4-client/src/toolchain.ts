@@ -0,0 +1,58 @@
+import { spawn } from 'child_process';
+import { SemVer } from 'semver';
+
+/** Receives diagnostic messages, e.g. how long it took to run an executable. */
+export type Logger = (msg: string) => void;
+
+/**
+ * Runs the given executable and returns everything it wrote to stdout and stderr,
+ * or `undefined` if it could not be started.
+ */
+export function execute(executable: string, args: string[], cwd?: string): Promise<string | undefined> {
+    return new Promise(resolve => {
+        let output = '';
+        const proc = spawn(executable, args, { cwd });
+        proc.stdout.on('data', (data) => { output += (data as Buffer).toString(); });
+        proc.stderr.on('data', (data) => { output += (data as Buffer).toString(); });
+        proc.on('error', () => resolve(undefined));
+        proc.on('close', () => resolve(output));
+    });
+}
+
+/**
+ * Returns the release date of a well known toolchain label like `leanprover/lean4:nightly-2022-02-01`,
+ * or `undefined` if the date cannot be determined from the label alone.
+ */
+export function toolchainReleaseDate(toolchainVersion: string): Date | undefined {
+    const match = /^leanprover\/lean4:nightly-(\d+)-(\d+)-(\d+)$/.exec(toolchainVersion);
+    if (match) {
+        return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+    }
+    if (toolchainVersion === 'leanprover/lean4:stable') {
+        return new Date(2022, 2, 1);
+    }
+    return undefined;
+}
+
+/** Parses the output of `lake --version`, e.g. `Lake version 3.1.0-pre (Lean version 4.0.0-nightly-2022-02-16)`. */
+export function extractLakeVersion(v: string | undefined): SemVer {
+    if (!v) return new SemVer('0.0.0');
+    const prefix = 'Lake version'
+    if (v.startsWith(prefix)) v = v.slice(prefix.length).trim()
+    const pos = v.indexOf('(')
+    if (pos > 0) v = v.slice(0, pos).trim()
+    try {
+        return new SemVer(v)
+    } catch {
+        return new SemVer('0.0.0');
+    }
+}
+
+/** Checks that the Lake version is high enough to support the `lake serve` command. */
+export async function checkLakeVersion(executable: string, version: string | undefined, cwd?: string, log?: Logger): Promise<boolean> {
+    const versionOptions = version ? ['+' + version, '--version'] : ['--version']
+    const start = Date.now()
+    const lakeVersion = await execute(executable, versionOptions, cwd);
+    log?.(`Ran '${executable} ${versionOptions.join(' ')}' in ${Date.now() - start} ms`);
+    return extractLakeVersion(lakeVersion).compare('3.0.0') > 0;
+}
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { suite, suiteSetup, suiteTeardown, test } from 'mocha';
+import * as os from 'os';
+import { join } from 'path';
+import { LeanServerClient } from '../src/client';
+
+/**
+ * A stand-in for `lean --server` which processes a file at once, warns about every `sorry` in it
+ * and exits with code 1 on the notification `$/test/crash`.
+ */
+const fakeServer = (protocolPath: string) => `
+const { createMessageConnection, StreamMessageReader, StreamMessageWriter } = require(${JSON.stringify(protocolPath)});
+const connection = createMessageConnection(new StreamMessageReader(process.stdin), new StreamMessageWriter(process.stdout));
+const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 5 } };
+function elaborate(uri, version, text) {
+    connection.sendNotification('$/lean/fileProgress', { textDocument: { uri, version }, processing: [{ range }] });
+    const diagnostics = text.includes('sorry') ? [{ range, severity: 2, message: "declaration uses 'sorry'" }] : [];
+    connection.sendNotification('textDocument/publishDiagnostics', { uri, version, diagnostics });
+    connection.sendNotification('$/lean/fileProgress', { textDocument: { uri, version }, processing: [] });
+}
+connection.onRequest('initialize', () => ({ capabilities: {}, serverInfo: { name: 'Lean 4 Server', version: 'test' } }));
+connection.onRequest('shutdown', () => null);
+connection.onRequest('$/test/echo', params => params);
+connection.onNotification('exit', () => process.exit(0));
+connection.onNotification('$/test/crash', () => process.exit(1));
+connection.onNotification('textDocument/didOpen', ({ textDocument }) =>
+    elaborate(textDocument.uri, textDocument.version, textDocument.text));
+connection.onNotification('textDocument/didChange', ({ textDocument, contentChanges }) =>
+    elaborate(textDocument.uri, textDocument.version, contentChanges[0].text));
+connection.listen();
+`;
+
+const uri = 'file:///pkg/Main.lean';
+
+suite('LeanServerClient', function () {
+    this.timeout(10000);
+    let toolchainPath: string;
+
+    suiteSetup(async function () {
+        // The fake `lean` is a shell script.
+        if (process.platform === 'win32') this.skip();
+        toolchainPath = await fs.promises.mkdtemp(join(os.tmpdir(), 'lean4-client-'));
+        const serverPath = join(toolchainPath, 'server.js');
+        await fs.promises.writeFile(serverPath, fakeServer(require.resolve('vscode-languageserver-protocol/node')));
+        await fs.promises.mkdir(join(toolchainPath, 'bin'));
+        await fs.promises.writeFile(join(toolchainPath, 'bin', 'lean'),
+            `#!/bin/sh\nexec "${process.execPath}" "${serverPath}"\n`, { mode: 0o755 });
+    });
+
+    suiteTeardown(async () => {
+        if (toolchainPath) await fs.promises.rm(toolchainPath, { recursive: true, force: true });
+    });
+
+    test('starts and stops the server', async () => {
+        const client = new LeanServerClient({ toolchainPath });
+        const exitCodes: (number | null)[] = [];
+        client.stopped(code => exitCodes.push(code));
+
+        const result = await client.start();
+        assert.strictEqual(result.serverInfo?.name, 'Lean 4 Server');
+        assert.strictEqual(client.isRunning(), true);
+        await assert.rejects(client.start(), /already running/);
+
+        await client.stop();
+        assert.strictEqual(client.isRunning(), false);
+        assert.deepStrictEqual(exitCodes, [0]);
+        await assert.rejects(client.openDocument(uri, ''), /not running/);
+    });
+
+    test('waits for the diagnostics of opened and changed files', async () => {
+        const client = new LeanServerClient({ toolchainPath });
+        await client.start();
+        try {
+            await client.openDocument(uri, 'theorem foo : 1 = 1 := sorry');
+            const diagnostics = await client.waitForDiagnostics(uri);
+            assert.deepStrictEqual(diagnostics.map(d => d.message), ["declaration uses 'sorry'"]);
+            assert.deepStrictEqual(client.progress.get(uri), []);
+
+            await client.changeDocument(uri, 'theorem foo : 1 = 1 := rfl');
+            assert.deepStrictEqual(await client.waitForDiagnostics(uri), []);
+
+            await client.closeDocument(uri);
+            assert.strictEqual(client.progress.has(uri), false);
+            assert.strictEqual(client.diagnostics.has(uri), false);
+        } finally {
+            await client.stop();
+        }
+    });
+
+    test('forwards custom requests and notifications', async () => {
+        const client = new LeanServerClient({ toolchainPath });
+        const methods: string[] = [];
+        client.customNotification(({ method }) => methods.push(method));
+        await client.start();
+        try {
+            assert.deepStrictEqual(await client.sendRequest('$/test/echo', { x: 1 }), { x: 1 });
+            await client.openDocument(uri, '');
+            await client.waitForDiagnostics(uri);
+            assert.deepStrictEqual(methods, ['$/lean/fileProgress', '$/lean/fileProgress']);
+        } finally {
+            await client.stop();
+        }
+    });
+
+    test('stops waiting for diagnostics when the server crashes', async () => {
+        const client = new LeanServerClient({ toolchainPath });
+        await client.start();
+        const diagnostics = client.waitForDiagnostics(uri);
+        await client.sendNotification('$/test/crash', {});
+        await assert.rejects(diagnostics, /exited with code 1/);
+        assert.strictEqual(client.isRunning(), false);
+    });
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { parseLakeOutput } from '../src/lakeErrors';
+
+suite('parseLakeOutput', () => {
+    test('positioned errors', () => {
+        const output = 'info: updating ./lake-packages/std\n' +
+            'error: ./lakefile.lean:3:2: error: unknown identifier \'foo\'\n' +
+            './lakefile.lean:7:0: warning: unused variable `x`\n';
+        assert.deepStrictEqual(parseLakeOutput(output), [
+            { file: './lakefile.lean', line: 3, column: 2, severity: 'error', message: 'unknown identifier \'foo\'' },
+            { file: './lakefile.lean', line: 7, column: 0, severity: 'warning', message: 'unused variable `x`' },
+        ]);
+    });
+
+    test('errors without a position', () => {
+        assert.deepStrictEqual(parseLakeOutput('error: could not resolve \'HEAD\' to a commit'), [
+            { line: 1, column: 0, severity: 'error', message: 'could not resolve \'HEAD\' to a commit' },
+        ]);
+    });
+
+    test('continuation lines are appended to the previous message', () => {
+        const output = 'error: ./lakefile.lean:1:0: error: type mismatch\n' +
+            '  h\n' +
+            'has type\n' +
+            '\n' +
+            'info: cloning https://github.com/leanprover/std4\n' +
+            'this line belongs to no message\r\n';
+        const messages = parseLakeOutput(output);
+        assert.strictEqual(messages.length, 1);
+        assert.strictEqual(messages[0].message, 'type mismatch\n  h\nhas type');
+    });
+
+    test('output without errors', () => {
+        assert.deepStrictEqual(parseLakeOutput('info: building\nBuild completed successfully.\n'), []);
+        assert.deepStrictEqual(parseLakeOutput(''), []);
+    });
+});
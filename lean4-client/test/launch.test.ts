@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { suite, suiteSetup, suiteTeardown, test } from 'mocha';
+import * as os from 'os';
+import { join } from 'path';
+import { resolveServerCommand } from '../src/launch';
+import { extractLakeVersion, toolchainReleaseDate } from '../src/toolchain';
+
+suite('resolveServerCommand', () => {
+    let lakePackage: string;
+    let plainPackage: string;
+
+    suiteSetup(async () => {
+        const tmp = await fs.promises.mkdtemp(join(os.tmpdir(), 'lean4-client-'));
+        lakePackage = join(tmp, 'lake');
+        plainPackage = join(tmp, 'plain');
+        await fs.promises.mkdir(lakePackage);
+        await fs.promises.mkdir(plainPackage);
+        await fs.promises.writeFile(join(lakePackage, 'lakefile.lean'), 'import Lake\n');
+    });
+
+    suiteTeardown(async () => {
+        await fs.promises.rm(join(lakePackage, '..'), { recursive: true, force: true });
+    });
+
+    test('lake serve for packages with a lakefile and a recent toolchain', async () => {
+        const cmd = await resolveServerCommand({
+            folderPath: lakePackage,
+            toolchainPath: '/toolchain',
+            lakeEnabled: true,
+            packageToolchain: 'leanprover/lean4:nightly-2022-06-01',
+            serverArgs: ['--threads=2'],
+        });
+        assert.strictEqual(cmd.useLake, true);
+        assert.strictEqual(cmd.command, join('/toolchain', 'bin', 'lake'));
+        assert.deepStrictEqual(cmd.args, ['serve', '--', lakePackage, '--threads=2']);
+        assert.strictEqual(cmd.cwd, lakePackage);
+    });
+
+    test('lean --server for toolchains older than lake serve', async () => {
+        const cmd = await resolveServerCommand({
+            folderPath: lakePackage,
+            lakeEnabled: true,
+            packageToolchain: 'leanprover/lean4:nightly-2022-01-01',
+            toolchainVersion: 'leanprover/lean4:nightly-2022-01-01',
+        });
+        assert.strictEqual(cmd.useLake, false);
+        assert.strictEqual(cmd.command, 'lean');
+        assert.deepStrictEqual(cmd.args, ['+leanprover/lean4:nightly-2022-01-01', '--server', lakePackage]);
+    });
+
+    test('lean --server without a lakefile or when lake is disabled', async () => {
+        const withoutLakefile = await resolveServerCommand({ folderPath: plainPackage, lakeEnabled: true });
+        assert.strictEqual(withoutLakefile.useLake, false);
+        assert.deepStrictEqual(withoutLakefile.args, ['--server', plainPackage]);
+
+        const disabled = await resolveServerCommand({
+            folderPath: lakePackage, lakeEnabled: false, packageToolchain: 'leanprover/lean4:nightly-2022-06-01' });
+        assert.strictEqual(disabled.useLake, false);
+    });
+
+    test('files outside of packages', async () => {
+        const cmd = await resolveServerCommand({ lakeEnabled: true });
+        assert.strictEqual(cmd.useLake, false);
+        assert.deepStrictEqual(cmd.args, ['--server', 'untitled']);
+        assert.strictEqual(cmd.cwd, undefined);
+    });
+
+    test('the environment of the server', async () => {
+        const cmd = await resolveServerCommand({ env: { FOO: 'bar' }, serverLoggingPath: '/logs' });
+        assert.deepStrictEqual(cmd.env, { FOO: 'bar', LEAN_SERVER_LOG_DIR: '/logs' });
+    });
+});
+
+suite('toolchains', () => {
+    test('release dates of well known toolchains', () => {
+        assert.deepStrictEqual(toolchainReleaseDate('leanprover/lean4:nightly-2022-02-16'), new Date(2022, 1, 16));
+        assert.deepStrictEqual(toolchainReleaseDate('leanprover/lean4:stable'), new Date(2022, 2, 1));
+        assert.strictEqual(toolchainReleaseDate('leanprover/lean4:nightly'), undefined);
+        assert.strictEqual(toolchainReleaseDate('my-toolchain'), undefined);
+    });
+
+    test('lake versions', () => {
+        assert.strictEqual(extractLakeVersion('Lake version 3.1.0-pre (Lean version 4.0.0-nightly-2022-02-16)').format(), '3.1.0-pre');
+        assert.strictEqual(extractLakeVersion('3.2.0').format(), '3.2.0');
+        assert.strictEqual(extractLakeVersion('garbage').format(), '0.0.0');
+        assert.strictEqual(extractLakeVersion(undefined).format(), '0.0.0');
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { DiagnosticSeverity } from 'vscode-languageserver-protocol';
+import type { LeanFileProgressParams } from '@leanprover/infoview-api';
+import { LeanServerNotifications } from '../src/notifications';
+
+const uri = 'file:///pkg/Main.lean';
+const range = { start: { line: 0, character: 0 }, end: { line: 3, character: 0 } };
+
+function fileProgress(processing: LeanFileProgressParams['processing']): LeanFileProgressParams {
+    return { textDocument: { uri, version: 1 }, processing };
+}
+
+suite('LeanServerNotifications', () => {
+    test('keeps the latest progress of each file', () => {
+        const notifications = new LeanServerNotifications();
+        const changes: [string, number][] = [];
+        notifications.progressChanged(([u, processing]) => changes.push([u, processing.length]));
+
+        notifications.handleNotification('$/lean/fileProgress', fileProgress([{ range }]));
+        assert.deepStrictEqual(notifications.progress.get(uri), [{ range }]);
+        notifications.handleNotification('$/lean/fileProgress', fileProgress([]));
+        assert.deepStrictEqual(notifications.progress.get(uri), []);
+        assert.deepStrictEqual(changes, [[uri, 1], [uri, 0]]);
+
+        notifications.clearProgress(uri);
+        assert.strictEqual(notifications.progress.has(uri), false);
+    });
+
+    test('forwards all custom notifications', () => {
+        const notifications = new LeanServerNotifications();
+        const methods: string[] = [];
+        notifications.customNotification(({ method }) => methods.push(method));
+        notifications.handleNotification('$/lean/fileProgress', fileProgress([]));
+        notifications.handleNotification('$/lean/rpc/keepAlive', {});
+        assert.deepStrictEqual(methods, ['$/lean/fileProgress', '$/lean/rpc/keepAlive']);
+        // only the progress is kept.
+        assert.deepStrictEqual([...notifications.progress.keys()], [uri]);
+    });
+
+    test('keeps the latest diagnostics of each file', () => {
+        const notifications = new LeanServerNotifications();
+        let fired = 0;
+        notifications.diagnosticsChanged(() => fired++);
+        const diagnostics = [{ range, message: 'unknown identifier', severity: DiagnosticSeverity.Error }];
+        notifications.handleDiagnostics({ uri, diagnostics });
+        assert.deepStrictEqual(notifications.diagnostics.get(uri), diagnostics);
+        assert.strictEqual(fired, 1);
+
+        notifications.handleNotification('$/lean/fileProgress', fileProgress([]));
+        notifications.clearFile(uri);
+        assert.strictEqual(notifications.diagnostics.has(uri), false);
+        assert.strictEqual(notifications.progress.has(uri), false);
+    });
+});
@@ -0,0 +1,8 @@
+// The tests are compiled on the fly, with the settings of `test/tsconfig.json`.
+process.env.TS_NODE_PROJECT = 'test/tsconfig.json'
+
+module.exports = {
+    require: 'ts-node/register',
+    spec: 'test/**/*.test.ts',
+    ui: 'tdd',
+}
@@ -0,0 +1,211 @@
+/**
+ * Maps abbreviations, without the leader (e.g. `\`), to the text they are replaced with,
+ * where `$CURSOR` marks the position of the cursor after the replacement.
+ */
+export interface SymbolsByAbbreviation {
+    [abbrev: string]: string
+}
+
+const cursorVar = '$CURSOR'
+
+/**
+ * The part of the abbreviation engine that does not depend on the editor: answers which symbols an abbreviation
+ * that is being typed stands for. The extension uses it for text editors, and the infoview for its text inputs.
+ */
+export class AbbreviationTable {
+    private cache = new Map<string, string | undefined>()
+
+    /** @param usageCount how often the user typed `symbol`, to rank the symbols of ambiguous abbreviations. */
+    constructor(readonly symbolsByAbbreviation: SymbolsByAbbreviation,
+                private readonly usageCount: (symbol: string) => number = () => 0) {}
+
+    /** Must be called whenever the results of `usageCount` change. */
+    clearCache(): void {
+        this.cache.clear()
+    }
+
+    getSymbolForAbbreviation(abbrev: string): string | undefined {
+        return this.symbolsByAbbreviation[abbrev]
+    }
+
+    /**
+     * Returns all abbreviations starting with `abbrevPrefix`, best match first:
+     * `abbrevPrefix` itself, then those of the symbols the user typed most often, then the shortest ones.
+     */
+    findAbbreviationsByPrefix(abbrevPrefix: string): string[] {
+        const matchingAbbreviations = Object.keys(this.symbolsByAbbreviation)
+            .filter(abbrev => abbrev.startsWith(abbrevPrefix))
+
+        const usageCount = (abbr: string) => this.usageCount(this.symbolsByAbbreviation[abbr])
+        matchingAbbreviations.sort((a, b) =>
+            Number(b === abbrevPrefix) - Number(a === abbrevPrefix) ||
+            usageCount(b) - usageCount(a) ||
+            a.length - b.length
+        )
+        return matchingAbbreviations
+    }
+
+    /** Returns the symbols of the abbreviations of {@link findAbbreviationsByPrefix}, best match first. */
+    findSymbolsByAbbreviationPrefix(abbrevPrefix: string): string[] {
+        return this.findAbbreviationsByPrefix(abbrevPrefix).map(abbr => this.symbolsByAbbreviation[abbr])
+    }
+
+    /**
+     * Computes the replacement text for a typed abbreviation (excl. leader).
+     * This converts the longest non-empty prefix with the best-matching abbreviation.
+     *
+     * For example:
+     *   getReplacementText("alp") returns "α"
+     *   getReplacementText("alp7") returns "α7"
+     *   getReplacementText("") returns undefined
+     */
+    getReplacementText(abbrev: string): string | undefined {
+        if (this.cache.has(abbrev)) {
+            return this.cache.get(abbrev)
+        }
+        const result = this.computeReplacementText(abbrev)
+        this.cache.set(abbrev, result)
+        return result
+    }
+
+    private computeReplacementText(abbrev: string): string | undefined {
+        if (abbrev.length === 0) {
+            return undefined
+        }
+
+        const matchingSymbol = this.findSymbolsByAbbreviationPrefix(abbrev)[0]
+        if (matchingSymbol) {
+            return matchingSymbol
+        }
+
+        // Convert the `alp` in `\alp7`
+        const prefixReplacement = this.getReplacementText(abbrev.slice(0, abbrev.length - 1))
+        if (prefixReplacement) {
+            return prefixReplacement + abbrev.slice(abbrev.length - 1)
+        }
+
+        return undefined
+    }
+
+    /** Whether `abbrev` is an abbreviation that is not the start of any other one. */
+    isAbbreviationUniqueAndComplete(abbrev: string): boolean {
+        return this.findSymbolsByAbbreviationPrefix(abbrev).length === 1 &&
+            !!this.getSymbolForAbbreviation(abbrev)
+    }
+
+    getAllAbbreviations(symbol: string): string[] {
+        return Object.entries(this.symbolsByAbbreviation)
+            .filter(([, sym]) => sym === symbol)
+            .map(([abbr]) => abbr)
+    }
+
+    /**
+     * Returns the abbreviation to write `symbol` with, e.g. `to` for `→`.
+     * Among those that are replaced by `symbol` again, the shortest one made of at least two
+     * lowercase letters is preferred, since those are the most readable.
+     */
+    getCanonicalAbbreviation(symbol: string): string | undefined {
+        const isReadable = (abbr: string) => /^[a-z]{2,}$/.test(abbr)
+        const abbrevs = this.getAllAbbreviations(symbol)
+            .filter(abbr => this.getReplacementText(abbr) === symbol)
+        abbrevs.sort((a, b) =>
+            Number(isReadable(b)) - Number(isReadable(a)) || a.length - b.length
+        )
+        return abbrevs[0]
+    }
+}
+
+/** The text of an input after an abbreviation in it was replaced, see {@link replaceTypedAbbreviation}. */
+export interface ReplacedAbbreviation {
+    text: string
+    /** Where the cursor goes: to `$CURSOR` if the cursor was at the end of the abbreviation, otherwise it stays. */
+    cursor: number
+    /** How much the text after the abbreviation moved. */
+    delta: number
+}
+
+/**
+ * Replaces the abbreviation `abbrev` which was typed after the leader at `start` in `text` by its symbol,
+ * where `cursor` is the position of the cursor. Returns `undefined` if `abbrev` is not at `start` anymore
+ * or has no symbol.
+ */
+export function replaceTypedAbbreviation(table: AbbreviationTable, leader: string, text: string, start: number,
+        abbrev: string, cursor: number): ReplacedAbbreviation | undefined {
+    const symbol = table.getReplacementText(abbrev)
+    const from = start - leader.length
+    const to = start + abbrev.length
+    if (symbol === undefined || text.slice(from, to) !== leader + abbrev) return undefined
+
+    const symbolText = symbol.replace(cursorVar, '')
+    const cursorOffset = symbol.indexOf(cursorVar)
+    const delta = symbolText.length - (to - from)
+    let newCursor = cursor >= to ? cursor + delta : cursor
+    if (cursorOffset !== -1 && cursor === to) newCursor = from + cursorOffset
+    return { text: text.slice(0, from) + symbolText + text.slice(to), cursor: newCursor, delta }
+}
+
+/**
+ * Replaces every symbol in `text` by its canonical abbreviation, e.g. `α → β` by `\a \to \b`.
+ * A space is inserted after an abbreviation if the next character would otherwise continue it,
+ * so that {@link replaceAbbreviationsBySymbols} gives back the symbols, followed by that space.
+ */
+export function replaceSymbolsByAbbreviations(text: string, table: AbbreviationTable, leader: string): string {
+    const abbrevsBySymbol = new Map<string, string>()
+    for (const symbol of new Set(Object.values(table.symbolsByAbbreviation))) {
+        // Symbols starting with ASCII characters are meant to be typed anyway.
+        if (symbol.includes(cursorVar) || symbol.charCodeAt(0) < 128) continue
+        const abbr = table.getCanonicalAbbreviation(symbol)
+        if (abbr) abbrevsBySymbol.set(symbol, abbr)
+    }
+    // Prefer the longest symbol, e.g. `⁻¹` over `⁻`.
+    const symbols = [...abbrevsBySymbol.keys()].sort((a, b) => b.length - a.length)
+
+    let result = ''
+    let i = 0
+    while (i < text.length) {
+        const symbol = text.charCodeAt(i) < 128 ? undefined : symbols.find(s => text.startsWith(s, i))
+        if (!symbol) {
+            result += text[i]
+            i++
+            continue
+        }
+        const abbr = abbrevsBySymbol.get(symbol) as string
+        result += leader + abbr
+        i += symbol.length
+        if (i < text.length && table.findSymbolsByAbbreviationPrefix(abbr + text[i]).length > 0) {
+            result += ' '
+        }
+    }
+    return result
+}
+
+/**
+ * Replaces every abbreviation in `text` by its symbol, just like the rewriter would if `text` was typed.
+ * For example, `\a \to \b` becomes `α → β`.
+ */
+export function replaceAbbreviationsBySymbols(text: string, table: AbbreviationTable, leader: string): string {
+    let result = ''
+    let i = 0
+    while (i < text.length) {
+        if (!text.startsWith(leader, i)) {
+            result += text[i]
+            i++
+            continue
+        }
+        // The abbreviation goes on as long as there are abbreviations starting with it.
+        const start = i + leader.length
+        let end = start
+        while (end < text.length && table.findSymbolsByAbbreviationPrefix(text.slice(start, end + 1)).length > 0) {
+            end++
+        }
+        const replacement = table.getReplacementText(text.slice(start, end))
+        if (replacement === undefined) {
+            result += leader
+            i = start
+            continue
+        }
+        result += replacement.replace(cursorVar, '')
+        i = end
+    }
+    return result
+}
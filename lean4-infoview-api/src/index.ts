@@ -3,3 +3,4 @@ export * from './infoviewApi'
 export * from './rpcSessions'
 export * from './rpcApi'
 export * from './util'
+export * from './abbreviations'
@@ -1,4 +1,6 @@
-import type { DocumentUri, InitializeResult, Location, ShowDocumentParams, TextDocumentPositionParams } from 'vscode-languageserver-protocol'
+import type { DocumentUri, InitializeResult, Location, Position, ShowDocumentParams, TextDocumentPositionParams } from 'vscode-languageserver-protocol'
+import { UserWidgetInstance } from './rpcApi'
+import { SymbolsByAbbreviation } from './abbreviations'
 
 export interface EditorFsApi {
   stat(path: string): Promise<any>;
@@ -39,6 +41,13 @@ export interface EditorApi {
   /** Put `text` in the user's clipboard. */
   copyToClipboard(text: string): Promise<void>;
 
+  /**
+   * Ask the user where to save `contents`, suggesting the file name `defaultName`, and write them there.
+   * `filters` maps a description of a file type to its extensions, e.g. `{ 'JSON': ['json'] }`.
+   * Returns the uri of the written file, or `undefined` if the user cancelled.
+   */
+  saveFile(contents: string, defaultName: string, filters?: {[name: string]: string[]}): Promise<DocumentUri | undefined>;
+
   // NOTE: We could implement everything below in the infoview given `emulateServerNotification`.
   // But the API is small enough it may not be worth the hacks for now.
   /**
@@ -54,6 +63,12 @@ export interface EditorApi {
   /** Highlight a range in a document in the editor. */
   showDocument(show: ShowDocumentParams): Promise<void>;
 
+  /**
+   * Returns the start of the tactic at `pos`, where the server reports the goals before that tactic,
+   * or `undefined` if there is no tactic at `pos`. Only the editor knows the text of the document to find it in.
+   */
+  getTacticStart(pos: TextDocumentPositionParams): Promise<Position | undefined>;
+
   /**
    * Creates an RPC session for the given uri and returns the session id.
    * The extension takes care of keeping the RPC session alive.
@@ -63,6 +78,51 @@ export interface EditorApi {
   createRpcSession(uri: DocumentUri): Promise<string>;
   /** Closes an RPC session created with `createRpcSession`. */
   closeRpcSession(sessionId: string): Promise<void>;
+
+  /**
+   * Must be called whenever the pinned positions of the infoview change, so that the editor can store them
+   * and send them back through {@link InfoviewApi.restoredPins} when the infoview is re-created.
+   */
+  savePins(pins: InfoviewPin[]): Promise<void>;
+
+  /**
+   * Must be called whenever an abbreviation typed into a text input of the infoview is replaced by `symbol`,
+   * so that it counts towards the usage counts like the abbreviations typed in the editor.
+   */
+  completedAbbreviation(symbol: string): Promise<void>;
+
+  /**
+   * Show the user widget `widget` at `pos` in a panel of its own, e.g. for large visualizations.
+   * The panel is another infoview which gets the widget through {@link InfoviewApi.changedPoppedOutWidget},
+   * and the editor must fire that again whenever an edit of the document moves the position.
+   */
+  popOutWidget(pos: TextDocumentPositionParams, widget: UserWidgetInstance): Promise<void>;
+}
+
+/** A user widget shown in a panel of its own, see {@link EditorApi.popOutWidget}. */
+export interface PoppedOutWidget {
+  /** The position of the widget, moved along with the edits of the document. */
+  pos: TextDocumentPositionParams;
+  /** The widget instance when it was popped out, used until the widget is found at `pos` again. */
+  widget: UserWidgetInstance;
+}
+
+/** A position pinned in the infoview. */
+export interface InfoviewPin {
+  uri: DocumentUri;
+  line: number;
+  character: number;
+  /** Whether updating the pinned info is paused. */
+  paused: boolean;
+  /** The filter of the hypotheses in the pinned info, if one was entered. */
+  hypothesisFilter?: HypothesisFilter;
+}
+
+/** Filters hypotheses by their names and pretty-printed types. */
+export interface HypothesisFilter {
+  text: string;
+  /** Whether `text` is a regular expression, otherwise it is matched case-insensitively. */
+  isRegex: boolean;
 }
 
 export interface InfoviewTacticStateFilter {
@@ -75,11 +135,32 @@ export interface InfoviewTacticStateFilter {
 export interface InfoviewConfig {
     infoViewAllErrorsOnLine: boolean;
     infoViewAutoOpenShowGoal: boolean;
+    /** The defaults of the goal filters, which can be changed in the infoview. */
+    infoViewReverseTacticState: boolean;
+    infoViewHideTypeAssumptions: boolean;
+    infoViewHideInstanceAssumptions: boolean;
+    infoViewHideInaccessibleAssumptions: boolean;
+    /**
+     * The abbreviations which are replaced by their symbols in text inputs of the infoview,
+     * like in the editor. Empty when the input of symbols is disabled.
+     */
+    inputAbbreviations: SymbolsByAbbreviation;
+    /** The character that starts an abbreviation. */
+    inputLeader: string;
+    /** Whether an abbreviation is replaced as soon as it is complete and not the start of another one. */
+    inputEagerReplacementEnabled: boolean;
 }
 
 export const defaultInfoviewConfig: InfoviewConfig = {
     infoViewAllErrorsOnLine: true,
     infoViewAutoOpenShowGoal: true,
+    infoViewReverseTacticState: false,
+    infoViewHideTypeAssumptions: false,
+    infoViewHideInstanceAssumptions: false,
+    infoViewHideInaccessibleAssumptions: false,
+    inputAbbreviations: {},
+    inputLeader: '\\',
+    inputEagerReplacementEnabled: true,
 }
 
 export type InfoviewAction =
@@ -113,19 +194,48 @@ export interface InfoviewApi {
    * `loc.range.start` must equal `loc.range.end`.
    */
   // TODO maybe change Location.Range to something aware of directionality (cursor at start/end of selection)
-  // TODO what to do when multiple cursors exist?
+  // When there are multiple cursors, this is the primary one, see also `changedSelections`.
   changedCursorLocation(loc?: Location): Promise<void>;
 
+  /**
+   * Must fire after {@link changedCursorLocation} with all cursors and selections in the Lean file,
+   * the primary one first, so that the infoview can show the info at each of them.
+   * Editors without multiple cursors do not need to fire this.
+   */
+  changedSelections(locs: Location[]): Promise<void>;
+
+  /**
+   * Must fire with the pins last saved through {@link EditorApi.savePins} before
+   * {@link serverRestarted}, so that the pins survive reloading the infoview and restarting the server.
+   * This includes the pins in files which are not open yet, their infos update once the files are opened.
+   */
+  restoredPins(pins: InfoviewPin[]): Promise<void>;
+
   /**
    * Must fire whenever the infoview configuration changes.
    */
   changedInfoviewConfig(conf: InfoviewConfig): Promise<void>;
 
+  /**
+   * Must fire with how often the user typed each symbol, which ranks the symbols of ambiguous abbreviations,
+   * after {@link changedInfoviewConfig} and whenever the counts change. Since they change with every abbreviation
+   * that is typed, the editor may wait a little before sending them again.
+   */
+  changedAbbreviationUsageCounts(usageCounts: { [symbol: string]: number }): Promise<void>;
+
   /**
    * Must fire whenever the user requests that the infoview perform an action.
    */
   requestedAction(action: InfoviewAction): Promise<void>;
 
+  /**
+   * Must fire in the panels opened for {@link EditorApi.popOutWidget}, which then only show that widget,
+   * once with the widget and again whenever its position moves.
+   * The first call must come before {@link InfoviewApi.serverRestarted}, otherwise the panel starts out as an infoview
+   * and saves its empty pins through {@link EditorApi.savePins}.
+   */
+  changedPoppedOutWidget(widget: PoppedOutWidget): Promise<void>;
+
   /**
    * Execute the given JavaScript code inside the infoview. Must not be used
    * for anything other than testing.
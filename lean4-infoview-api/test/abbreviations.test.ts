@@ -0,0 +1,135 @@
+import * as assert from 'assert'
+import { suite, test } from 'mocha'
+import { AbbreviationTable, replaceAbbreviationsBySymbols, replaceSymbolsByAbbreviations,
+    replaceTypedAbbreviation } from '../src/abbreviations'
+
+const symbolsByAbbreviation = {
+    'a': 'α',
+    'alpha': 'α',
+    'b': 'β',
+    'to': '→',
+    'r': '→',
+    'inv': '⁻¹',
+    '-1': '⁻¹',
+    '^-': '⁻',
+    'l': '←',
+    'le': '≤',
+    'lam': 'λ',
+    'lambda': 'λ',
+    '<>': '⟨$CURSOR⟩',
+    'N': 'ℕ',
+    'Nat': 'ℕ',
+}
+
+suite('AbbreviationTable', () => {
+    test('ranks the abbreviation itself first, then the shortest', () => {
+        const table = new AbbreviationTable(symbolsByAbbreviation)
+        assert.deepStrictEqual(table.findSymbolsByAbbreviationPrefix('l'), ['←', '≤', 'λ', 'λ'])
+        assert.deepStrictEqual(table.findSymbolsByAbbreviationPrefix('la'), ['λ', 'λ'])
+        assert.deepStrictEqual(table.findSymbolsByAbbreviationPrefix('x'), [])
+    })
+
+    test('ranks the abbreviations like their symbols', () => {
+        const usageCounts: {[symbol: string]: number} = { 'λ': 3 }
+        const table = new AbbreviationTable(symbolsByAbbreviation, symbol => usageCounts[symbol] ?? 0)
+        assert.deepStrictEqual(table.findAbbreviationsByPrefix('l'), ['l', 'lam', 'lambda', 'le'])
+        assert.deepStrictEqual(table.findAbbreviationsByPrefix('la'), ['lam', 'lambda'])
+    })
+
+    test('ranks the symbols typed most often before the shorter ones', () => {
+        const usageCounts: {[symbol: string]: number} = { 'λ': 3, '≤': 1 }
+        const table = new AbbreviationTable(symbolsByAbbreviation, symbol => usageCounts[symbol] ?? 0)
+        assert.deepStrictEqual(table.findSymbolsByAbbreviationPrefix('l'), ['←', 'λ', 'λ', '≤'])
+        assert.strictEqual(table.getReplacementText('la'), 'λ')
+
+        // cached until told otherwise.
+        usageCounts['≤'] = 5
+        assert.deepStrictEqual(table.findSymbolsByAbbreviationPrefix('l').slice(1), ['≤', 'λ', 'λ'])
+        assert.strictEqual(table.getReplacementText('l'), '←')
+    })
+
+    test('replaces the longest prefix that has a symbol', () => {
+        const table = new AbbreviationTable(symbolsByAbbreviation)
+        assert.strictEqual(table.getReplacementText('alp'), 'α')
+        assert.strictEqual(table.getReplacementText('alp7'), 'α7')
+        assert.strictEqual(table.getReplacementText('a7x'), 'α7x')
+        assert.strictEqual(table.getReplacementText('x'), undefined)
+        assert.strictEqual(table.getReplacementText(''), undefined)
+    })
+
+    test('unique and complete abbreviations', () => {
+        const table = new AbbreviationTable(symbolsByAbbreviation)
+        assert.strictEqual(table.isAbbreviationUniqueAndComplete('to'), true)
+        assert.strictEqual(table.isAbbreviationUniqueAndComplete('lam'), false)
+        assert.strictEqual(table.isAbbreviationUniqueAndComplete('t'), false)
+    })
+
+    test('prefers readable canonical abbreviations', () => {
+        const table = new AbbreviationTable(symbolsByAbbreviation)
+        assert.strictEqual(table.getCanonicalAbbreviation('→'), 'to')
+        assert.strictEqual(table.getCanonicalAbbreviation('⁻¹'), 'inv')
+        // `lam` is replaced by the symbol of `lambda`, which is the same.
+        assert.strictEqual(table.getCanonicalAbbreviation('λ'), 'lam')
+        // without readable abbreviations the shortest wins.
+        assert.strictEqual(table.getCanonicalAbbreviation('ℕ'), 'N')
+        assert.strictEqual(table.getCanonicalAbbreviation('x'), undefined)
+    })
+})
+
+suite('Converting between symbols and abbreviations', () => {
+    const table = new AbbreviationTable(symbolsByAbbreviation)
+
+    test('symbols to abbreviations', () => {
+        assert.strictEqual(replaceSymbolsByAbbreviations('α → β', table, '\\'), '\\alpha \\to \\b')
+        // the longest symbol wins, and a space separates abbreviations that would run into each other.
+        assert.strictEqual(replaceSymbolsByAbbreviations('x⁻¹⁻', table, '\\'), 'x\\inv\\^-')
+        assert.strictEqual(replaceSymbolsByAbbreviations('λb', table, '\\'), '\\lam b')
+        assert.strictEqual(replaceSymbolsByAbbreviations('λa', table, '\\'), '\\lama')
+        // symbols with a cursor are meant to be typed.
+        assert.strictEqual(replaceSymbolsByAbbreviations('⟨⟩', table, '\\'), '⟨⟩')
+    })
+
+    test('abbreviations to symbols', () => {
+        assert.strictEqual(replaceAbbreviationsBySymbols('\\a \\to \\b', table, '\\'), 'α → β')
+        assert.strictEqual(replaceAbbreviationsBySymbols('\\<>x', table, '\\'), '⟨⟩x')
+        assert.strictEqual(replaceAbbreviationsBySymbols('"\\x" \\', table, '\\'), '"\\x" \\')
+    })
+
+    test('round trip', () => {
+        const roundTrip = (text: string) =>
+            replaceAbbreviationsBySymbols(replaceSymbolsByAbbreviations(text, table, '\\'), table, '\\')
+        for (const text of ['∀ α β, α → β', 'ℕ⁻¹⁻ ≤ λ', 'λa ← (a : ℕ)', 'no symbols']) {
+            assert.strictEqual(roundTrip(text), text)
+        }
+        // only the space that separates abbreviations remains.
+        assert.strictEqual(roundTrip('λb'), 'λ b')
+    })
+})
+
+suite('replaceTypedAbbreviation', () => {
+    const table = new AbbreviationTable(symbolsByAbbreviation)
+
+    test('moves the cursor along with the text after the abbreviation', () => {
+        // `x \to y`, the abbreviation starts after the leader at 3.
+        assert.deepStrictEqual(replaceTypedAbbreviation(table, '\\', 'x \\to y', 3, 'to', 5),
+            { text: 'x → y', cursor: 3, delta: -2 })
+        assert.deepStrictEqual(replaceTypedAbbreviation(table, '\\', 'x \\to y', 3, 'to', 7),
+            { text: 'x → y', cursor: 5, delta: -2 })
+        // the cursor before the abbreviation stays.
+        assert.deepStrictEqual(replaceTypedAbbreviation(table, '\\', 'x \\to y', 3, 'to', 1),
+            { text: 'x → y', cursor: 1, delta: -2 })
+    })
+
+    test('puts the cursor at $CURSOR', () => {
+        assert.deepStrictEqual(replaceTypedAbbreviation(table, '\\', 'f \\<>', 3, '<>', 5),
+            { text: 'f ⟨⟩', cursor: 3, delta: -1 })
+        // unless the cursor is elsewhere.
+        assert.deepStrictEqual(replaceTypedAbbreviation(table, '\\', 'f \\<>', 3, '<>', 0),
+            { text: 'f ⟨⟩', cursor: 0, delta: -1 })
+    })
+
+    test('does nothing if the abbreviation is gone', () => {
+        assert.strictEqual(replaceTypedAbbreviation(table, '\\', 'x to y', 3, 'to', 5), undefined)
+        assert.strictEqual(replaceTypedAbbreviation(table, '\\', 'x \\zz', 3, 'zz', 5), undefined)
+    })
+})
@@ -0,0 +1,171 @@
+import * as React from 'react'
+import { AbbreviationTable, InfoviewConfig, replaceTypedAbbreviation } from '@leanprover/infoview-api'
+import { EditorContext } from './contexts'
+import { useEvent } from './util'
+
+type TextInput = HTMLInputElement | HTMLTextAreaElement
+
+/**
+ * Whether abbreviations are replaced in `target`. Inputs where a backslash means something else, like
+ * those of regular expressions, opt out with `data-abbreviations="off"` on themselves or an enclosing element.
+ */
+function isTextInput(target: EventTarget | null): target is TextInput {
+    const isText = target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLInputElement && (target.type === 'text' || target.type === 'search'))
+    return isText && !target.closest('[data-abbreviations="off"]')
+}
+
+/** Sets the value of a text input such that React sees the change, like typing would. */
+function setInputValue(input: TextInput, value: string) {
+    const proto = input instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype
+    // React tracks the values it set through the setter of the element itself, so it must be bypassed.
+    Object.getOwnPropertyDescriptor(proto, 'value')?.set?.call(input, value)
+    input.dispatchEvent(new Event('input', { bubbles: true }))
+}
+
+/** An abbreviation that is being typed into a text input, which starts after the leader at `start`. */
+interface TrackedAbbreviation {
+    input: TextInput
+    start: number
+    abbreviation: string
+}
+
+/**
+ * Replaces abbreviations typed into text inputs by their symbols, like the extension does in text editors:
+ * an abbreviation is replaced once a character is typed which no abbreviation continues with,
+ * when the cursor leaves it, or with eager replacement as soon as it is not the start of another one.
+ */
+class InputAbbreviationRewriter {
+    private tracked: TrackedAbbreviation | undefined
+    /** Set while we change the value of an input ourselves. */
+    private replacing = false
+    /** Updated when the config changes, which keeps the abbreviation that is being typed. */
+    table = new AbbreviationTable({})
+    leader = ''
+    eagerReplacementEnabled = true
+    /** How often the user typed each symbol, the table must be told when they change. */
+    usageCounts: { [symbol: string]: number } = {}
+
+    constructor(private readonly onCompleted: (symbol: string) => void) {}
+
+    onInput(e: InputEvent) {
+        if (this.replacing || !this.leader || !isTextInput(e.target)) return
+        const input = e.target
+        const cursor = input.selectionStart ?? 0
+        const tracked = this.tracked
+        const isTyped = e.inputType === 'insertText' && !!e.data
+
+        if (tracked && tracked.input === input) {
+            const end = tracked.start + tracked.abbreviation.length
+            if (isTyped && e.data !== null && cursor === end + e.data.length) {
+                const abbreviation = tracked.abbreviation + e.data
+                if (this.table.findSymbolsByAbbreviationPrefix(abbreviation).length > 0) {
+                    tracked.abbreviation = abbreviation
+                    if (this.eagerReplacementEnabled && this.table.isAbbreviationUniqueAndComplete(abbreviation)) {
+                        this.replaceLater(tracked)
+                    }
+                    return
+                }
+                // The typed character finishes the abbreviation and stays after its symbol.
+                this.replaceLater(tracked)
+            } else if (e.inputType === 'deleteContentBackward' && cursor === end - 1 && tracked.abbreviation.length > 0) {
+                tracked.abbreviation = tracked.abbreviation.slice(0, -1)
+                return
+            } else {
+                // We cannot follow other edits.
+                this.tracked = undefined
+            }
+        }
+
+        if (isTyped && e.data === this.leader) {
+            this.tracked = { input, start: cursor, abbreviation: '' }
+        }
+    }
+
+    /** Replaces the tracked abbreviation when the cursor leaves it. */
+    onSelectionChange() {
+        const tracked = this.tracked
+        if (!tracked || document.activeElement !== tracked.input) return
+        const { selectionStart, selectionEnd } = tracked.input
+        const end = tracked.start + tracked.abbreviation.length
+        if (selectionStart === null || selectionEnd === null ||
+            selectionStart < tracked.start || selectionEnd > end) {
+            this.replaceLater(tracked)
+        }
+    }
+
+    onFocusOut(e: FocusEvent) {
+        if (this.tracked && this.tracked.input === e.target) this.replaceLater(this.tracked)
+    }
+
+    /** Replaces the abbreviation after the current event, so that React sees the typed text first. */
+    private replaceLater(tracked: TrackedAbbreviation) {
+        if (this.tracked === tracked) this.tracked = undefined
+        setTimeout(() => this.replace(tracked), 0)
+    }
+
+    private replace({ input, start, abbreviation }: TrackedAbbreviation) {
+        // The text may have changed in the meantime.
+        const replaced = replaceTypedAbbreviation(this.table, this.leader, input.value, start, abbreviation,
+            input.selectionStart ?? start + abbreviation.length)
+        if (!replaced) return
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        this.onCompleted(this.table.getReplacementText(abbreviation)!)
+
+        this.replacing = true
+        try {
+            setInputValue(input, replaced.text)
+        } finally {
+            this.replacing = false
+        }
+        if (document.activeElement === input) input.setSelectionRange(replaced.cursor, replaced.cursor)
+        // An abbreviation typed right after this one has moved.
+        if (this.tracked && this.tracked.input === input && this.tracked.start >= start + abbreviation.length) {
+            this.tracked = { ...this.tracked, start: this.tracked.start + replaced.delta }
+        }
+    }
+}
+
+/**
+ * Replaces abbreviations typed into any text input of the infoview, including those of user widgets,
+ * using the abbreviations of the editor in `config` and ranking ambiguous ones like the editor.
+ */
+export function useAbbreviationInput(config: InfoviewConfig) {
+    const ec = React.useContext(EditorContext)
+    const { inputAbbreviations, inputLeader, inputEagerReplacementEnabled } = config
+    const rewriter = React.useMemo(() => {
+        const r = new InputAbbreviationRewriter(symbol => void ec.api.completedAbbreviation(symbol))
+        r.usageCounts = ec.events.changedAbbreviationUsageCounts.current ?? {}
+        return r
+    }, [])
+
+    // Each config comes with new objects, so the table is only rebuilt when the abbreviations change.
+    const abbreviationsJson = React.useMemo(() => JSON.stringify(inputAbbreviations), [inputAbbreviations])
+    rewriter.table = React.useMemo(() => {
+        const abbreviations = JSON.parse(abbreviationsJson) as InfoviewConfig['inputAbbreviations']
+        return new AbbreviationTable(abbreviations, symbol => rewriter.usageCounts[symbol] ?? 0)
+    }, [abbreviationsJson])
+    // Without abbreviations, e.g. when the input of symbols is disabled, nothing is replaced.
+    rewriter.leader = Object.keys(inputAbbreviations).length > 0 ? inputLeader : ''
+    rewriter.eagerReplacementEnabled = inputEagerReplacementEnabled
+
+    // The counts change with every abbreviation typed, which must not render the infoview again.
+    useEvent(ec.events.changedAbbreviationUsageCounts, usageCounts => {
+        rewriter.usageCounts = usageCounts
+        rewriter.table.clearCache()
+    }, [rewriter])
+
+    React.useEffect(() => {
+        const onInput = (e: Event) => { if (e instanceof InputEvent) rewriter.onInput(e) }
+        const onSelectionChange = () => rewriter.onSelectionChange()
+        const onFocusOut = (e: FocusEvent) => rewriter.onFocusOut(e)
+        document.addEventListener('input', onInput, true)
+        document.addEventListener('selectionchange', onSelectionChange)
+        document.addEventListener('focusout', onFocusOut, true)
+        return () => {
+            document.removeEventListener('input', onInput, true)
+            document.removeEventListener('selectionchange', onSelectionChange)
+            document.removeEventListener('focusout', onFocusOut, true)
+        }
+    }, [rewriter])
+}
@@ -5,6 +5,7 @@ import { LeanFileProgressProcessingInfo, InfoviewConfig, defaultInfoviewConfig }
 
 import { EditorConnection } from './editorConnection';
 import { ServerVersion } from './serverVersion';
+import type { GoalFilterState } from './goals';
 
 // Type-unsafe initializers for contexts which we immediately set up at the top-level.
 // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
@@ -13,4 +14,7 @@ export const VersionContext = React.createContext<ServerVersion | undefined>(und
 
 export const ConfigContext = React.createContext<InfoviewConfig>(defaultInfoviewConfig);
 export const LspDiagnosticsContext = React.createContext<Map<DocumentUri, Diagnostic[]>>(new Map());
+/** The goal filters chosen in the infoview header, which the infos start out with. */
+export const GoalFilterContext = React.createContext<[GoalFilterState, React.Dispatch<React.SetStateAction<GoalFilterState>>]>(
+    [{ reverse: false, isType: true, isInstance: true, isHiddenAssumption: true }, () => {}]);
 export const ProgressContext = React.createContext<Map<DocumentUri, LeanFileProgressProcessingInfo[]>>(new Map());
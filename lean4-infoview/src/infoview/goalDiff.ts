@@ -0,0 +1,144 @@
+import * as React from 'react'
+import { CodeWithInfos, getInteractiveGoals, InteractiveGoal, InteractiveGoals, InteractiveHypothesisBundle, RpcSessionAtPos,
+    TaggedText, TaggedText_stripTags } from '@leanprover/infoview-api'
+import type { EditorConnection } from './editorConnection'
+import type { ServerVersion } from './serverVersion'
+import type { DocumentPosition } from './util'
+import { updatePlainGoals } from './goalCompat'
+
+/**
+ * Subtrees of the displayed `TaggedText` which differ from the previous goal state.
+ * `InteractiveTaggedText` highlights a node if it is contained in here, nodes are compared by identity.
+ */
+export const ChangedSubtreesContext = React.createContext<Set<TaggedText<any>> | undefined>(undefined)
+
+export type HypDiffStatus = 'added' | 'changed' | 'unchanged'
+
+export interface HypDiff {
+    status: HypDiffStatus
+    /** Subtrees of the type and value of the hypothesis which changed. */
+    changed: Set<TaggedText<any>>
+}
+
+export interface GoalDiff {
+    /** A goal is new if it does not correspond to any goal of the previous state. */
+    status: 'new' | 'changed' | 'unchanged'
+    /** Subtrees of the goal type which changed. */
+    changed: Set<TaggedText<any>>
+    /** The diff of each hypothesis of the goal, by position in `goal.hyps`. */
+    hyps: HypDiff[]
+    /** Hypotheses of the previous goal which are gone. */
+    removedHyps: InteractiveHypothesisBundle[]
+}
+
+export interface GoalsDiff {
+    /** The diff of each goal, by position in `goals.goals`. */
+    goals: GoalDiff[]
+    /** Goals of the previous state which do not correspond to any current goal. */
+    closedGoals: InteractiveGoal[]
+}
+
+/**
+ * Collects the subtrees of `cur` which differ from `prev` into `changed`.
+ * The trees are compared structurally as long as their shapes match,
+ * so that only the smallest differing subtrees are marked.
+ */
+function diffTaggedText<T>(cur: TaggedText<T>, prev: TaggedText<T> | undefined, changed: Set<TaggedText<any>>) {
+    if (prev === undefined) {
+        changed.add(cur)
+        return
+    }
+    if (TaggedText_stripTags(cur) === TaggedText_stripTags(prev)) return
+    if ('tag' in cur && 'tag' in prev) {
+        diffTaggedText(cur.tag[1], prev.tag[1], changed)
+    } else if ('append' in cur && 'append' in prev && cur.append.length === prev.append.length) {
+        cur.append.forEach((a, i) => diffTaggedText(a, prev.append[i], changed))
+    } else {
+        changed.add(cur)
+    }
+}
+
+function changedSubtrees(cur: CodeWithInfos, prev: CodeWithInfos | undefined): Set<TaggedText<any>> {
+    const changed = new Set<TaggedText<any>>()
+    diffTaggedText(cur, prev, changed)
+    return changed
+}
+
+function diffHyps(hyps: InteractiveHypothesisBundle[], prevHyps: InteractiveHypothesisBundle[]): [HypDiff[], InteractiveHypothesisBundle[]] {
+    // Hypotheses are matched by name, since tactics like `simp at h` replace the free variable.
+    const prevByName = new Map<string, InteractiveHypothesisBundle>()
+    for (const h of prevHyps) for (const n of h.names) prevByName.set(n, h)
+    const names = new Set(hyps.flatMap(h => h.names))
+
+    const diffs = hyps.map(h => {
+        const prev = h.names.map(n => prevByName.get(n)).find(p => p !== undefined)
+        if (prev === undefined) return { status: 'added', changed: new Set() } as HypDiff
+        const changed = changedSubtrees(h.type, prev.type)
+        if (h.val) diffTaggedText(h.val, prev.val, changed)
+        return { status: changed.size > 0 ? 'changed' : 'unchanged', changed } as HypDiff
+    })
+    const removed = prevHyps.filter(h => h.names.every(n => !names.has(n)))
+    return [diffs, removed]
+}
+
+function diffGoal(goal: InteractiveGoal, prev: InteractiveGoal | undefined): GoalDiff {
+    if (prev === undefined) {
+        return { status: 'new', changed: new Set(), hyps: goal.hyps.map(() => ({ status: 'unchanged', changed: new Set() })), removedHyps: [] }
+    }
+    const changed = changedSubtrees(goal.type, prev.type)
+    const [hyps, removedHyps] = diffHyps(goal.hyps, prev.hyps)
+    const isUnchanged = changed.size === 0 && removedHyps.length === 0 && hyps.every(h => h.status === 'unchanged')
+    return { status: isUnchanged ? 'unchanged' : 'changed', changed, hyps, removedHyps }
+}
+
+/**
+ * Computes how `goals` differ from the goal state `prev`, e.g. at the previous tactic.
+ *
+ * Goals are matched by metavariable, then by case name, and the remaining ones in order,
+ * since a tactic usually replaces the main goal by a new metavariable.
+ */
+export function diffGoals(goals: InteractiveGoals, prev: InteractiveGoals): GoalsDiff {
+    const matches: (InteractiveGoal | undefined)[] = goals.goals.map(() => undefined)
+    const unmatched = new Set(prev.goals)
+    const matchBy = (key: (g: InteractiveGoal) => string | undefined) => {
+        goals.goals.forEach((g, i) => {
+            const k = key(g)
+            if (matches[i] !== undefined || k === undefined) return
+            const p = [...unmatched].find(p => key(p) === k)
+            if (p === undefined) return
+            matches[i] = p
+            unmatched.delete(p)
+        })
+    }
+    matchBy(g => g.mvarId)
+    matchBy(g => g.userName)
+    // The remaining goals are matched in order, those left over are new or closed.
+    const remaining = [...unmatched]
+    goals.goals.forEach((_, i) => {
+        if (matches[i] !== undefined) return
+        const p = remaining.shift()
+        if (p === undefined) return
+        matches[i] = p
+        unmatched.delete(p)
+    })
+    return {
+        goals: goals.goals.map((g, i) => diffGoal(g, matches[i])),
+        closedGoals: [...unmatched],
+    }
+}
+
+/**
+ * The goals before the tactic at `pos`, i.e. those at its start, where the server reports the goals before a tactic
+ * instead of after it. The tactic may start on another line, or after `;` on the same one.
+ */
+export async function getGoalsBefore(ec: EditorConnection, sv: ServerVersion | undefined, rpcSess: RpcSessionAtPos,
+        pos: DocumentPosition): Promise<InteractiveGoals | undefined> {
+    const position = { line: pos.line, character: pos.character }
+    const start = await ec.api.getTacticStart({ textDocument: { uri: pos.uri }, position }).catch(() => undefined)
+    if (!start || start.line === pos.line && start.character === pos.character) return undefined
+    if (sv?.hasWidgetsV1()) {
+        return getInteractiveGoals(rpcSess, { textDocument: { uri: pos.uri }, position: start }).catch(() => undefined)
+    }
+    const gs = await ec.requestPlainGoal({ uri: pos.uri, ...start }).catch(() => undefined)
+    return gs ? updatePlainGoals(gs) : undefined
+}
@@ -1,22 +1,37 @@
 import * as React from 'react'
 import { DocumentPosition } from './util'
-import { InteractiveCode } from './interactiveCode'
-import { InteractiveGoal, InteractiveGoals, InteractiveHypothesisBundle, InteractiveHypothesisBundle_accessibleNames, TaggedText_stripTags } from '@leanprover/infoview-api'
+import { HighlightedTextContext, InteractiveCode } from './interactiveCode'
+import { HypothesisFilter, InfoviewConfig, InteractiveGoal, InteractiveGoals, InteractiveHypothesisBundle, InteractiveHypothesisBundle_accessibleNames, TaggedText_stripTags } from '@leanprover/infoview-api'
+import { ChangedSubtreesContext, GoalDiff, GoalsDiff, HypDiff } from './goalDiff'
+import { WithTooltipOnHover } from './tooltips'
 
 interface HypProps {
     hyp: InteractiveHypothesisBundle
     index: number
+    /** How the hypothesis differs from the previous goal state, if that is shown. */
+    diff?: HypDiff
 }
 
-export function Hyp({ hyp : h, index }: HypProps) {
+export function Hyp({ hyp : h, index, diff }: HypProps) {
     const names = InteractiveHypothesisBundle_accessibleNames(h).map((n, i) =>
             <span className="mr1">{n}</span>
         )
-    return <li>
-        <strong className="goal-hyp">{names}</strong>
-        :&nbsp;
-        <InteractiveCode fmt={h.type} />
-        {h.val && <>&nbsp;:=&nbsp;<InteractiveCode fmt={h.val} /></>}
+    return <li className={diff?.status === 'added' ? 'goal-diff-added' : undefined}>
+        <ChangedSubtreesContext.Provider value={diff?.changed}>
+            <strong className="goal-hyp">{names}</strong>
+            :&nbsp;
+            <InteractiveCode fmt={h.type} />
+            {h.val && <>&nbsp;:=&nbsp;<InteractiveCode fmt={h.val} /></>}
+        </ChangedSubtreesContext.Provider>
+    </li>
+}
+
+/** A hypothesis of the previous goal state which is gone, shown as plain text since it is not interactive anymore. */
+function RemovedHyp({ hyp: h }: { hyp: InteractiveHypothesisBundle }) {
+    return <li className="goal-diff-removed">
+        <strong className="goal-hyp">{InteractiveHypothesisBundle_accessibleNames(h).join(' ')}</strong>
+        {' '}:&nbsp;{TaggedText_stripTags(h.type)}
+        {h.val && <>&nbsp;:=&nbsp;{TaggedText_stripTags(h.val)}</>}
     </li>
 }
 
@@ -54,17 +69,97 @@ export interface GoalFilterState {
     isInstance: boolean,
     /** If true show hypotheses that contain a dagger in the name, if false, hide hypotheses that contain a dagger in the name. */
     isHiddenAssumption: boolean
+    /** If present, only show hypotheses whose name or type matches, and highlight the matches. */
+    hypothesisFilter?: HypothesisFilter
+}
+
+/**
+ * Returns the regular expression for a hypothesis filter, `undefined` if it is empty,
+ * or the error message if it is an invalid regular expression.
+ */
+export function hypothesisFilterRegex(f: HypothesisFilter | undefined): RegExp | string | undefined {
+    if (!f || f.text === '') return undefined
+    if (!f.isRegex) return new RegExp(f.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i')
+    try {
+        return new RegExp(f.text)
+    } catch (e) {
+        return e instanceof Error ? e.message : `${e}`
+    }
+}
+
+/** The goal filters which the settings of the editor ask for. */
+export function goalFilterStateOfConfig(config: InfoviewConfig): GoalFilterState {
+    return {
+        reverse: config.infoViewReverseTacticState,
+        isType: !config.infoViewHideTypeAssumptions,
+        isInstance: !config.infoViewHideInstanceAssumptions,
+        isHiddenAssumption: !config.infoViewHideInaccessibleAssumptions,
+    }
+}
+
+interface GoalFilterButtonsProps {
+    filter: GoalFilterState
+    setFilter: React.Dispatch<React.SetStateAction<GoalFilterState>>
+}
+
+/** The buttons to reverse the hypotheses and to choose which ones are shown. */
+export function GoalFilterButtons({ filter, setFilter }: GoalFilterButtonsProps) {
+    const sortClasses = 'link pointer mh2 dim codicon fr ' + (filter.reverse ? 'codicon-arrow-up ' : 'codicon-arrow-down ');
+    const sortButton = <a className={sortClasses} title="reverse list" onClick={e => {
+        setFilter(s => {
+            return { ...s, reverse: !s.reverse }
+        } ); }
+    } />
+
+    const filterMenu = <span>
+        <a className='link pointer tooltip-menu-content' onClick={e => {
+            setFilter(s => {
+                return { ...s, isType: !s.isType }
+            } ); }}>
+                <span className={'tooltip-menu-icon codicon ' + (filter.isType ? 'codicon-check ' : 'codicon-blank ')}>&nbsp;</span>
+                <span className='tooltip-menu-text '>types</span>
+        </a>
+        <br/>
+        <a className='link pointer tooltip-menu-content' onClick={e => {
+            setFilter(s => {
+                return { ...s, isInstance: !s.isInstance }
+            } ); }}>
+                <span className={'tooltip-menu-icon codicon ' + (filter.isInstance ? 'codicon-check ' : 'codicon-blank ')}>&nbsp;</span>
+                <span className='tooltip-menu-text '>instances</span>
+        </a>
+        <br/>
+        <a className='link pointer tooltip-menu-content' onClick={e => {
+            setFilter(s => {
+                return { ...s, isHiddenAssumption: !s.isHiddenAssumption }
+            } ); }}>
+                <span className={'tooltip-menu-icon codicon ' + (filter.isHiddenAssumption ? 'codicon-check ' : 'codicon-blank ')}>&nbsp;</span>
+                <span className='tooltip-menu-text '>hidden assumptions</span>
+        </a>
+    </span>
+
+    const filterButton = <span className='fr'>
+        <WithTooltipOnHover mkTooltipContent={() => {return filterMenu}}>
+            <a className={'link pointer mh2 dim codicon ' + ((!filter.isInstance || !filter.isType || !filter.isHiddenAssumption) ? 'codicon-filter-filled ': 'codicon-filter ')}/>
+        </WithTooltipOnHover></span>
+
+    return <>{sortButton} {filterButton}</>
 }
 
 function isHiddenAssumption(h: InteractiveHypothesisBundle) {
     return h.names.every(n => n.indexOf('✝') >= 0);
 }
 
-function getFilteredHypotheses(hyps: InteractiveHypothesisBundle[], filter: GoalFilterState): InteractiveHypothesisBundle[] {
+function matchesHypothesis(h: InteractiveHypothesisBundle, regex: RegExp): boolean {
+    return h.names.some(n => regex.test(n)) || regex.test(TaggedText_stripTags(h.type)) ||
+        (h.val !== undefined && regex.test(TaggedText_stripTags(h.val)));
+}
+
+function getFilteredHypotheses(hyps: InteractiveHypothesisBundle[], filter: GoalFilterState, regex?: RegExp): InteractiveHypothesisBundle[] {
     return hyps.filter(h =>
         (!h.isInstance || filter.isInstance) &&
         (!h.isType || filter.isType) &&
-        (filter.isHiddenAssumption || !isHiddenAssumption(h)));
+        (filter.isHiddenAssumption || !isHiddenAssumption(h)) &&
+        (!regex || matchesHypothesis(h, regex)));
 }
 
 interface GoalProps {
@@ -72,38 +167,64 @@ interface GoalProps {
     filter: GoalFilterState
     /** Where the goal appears in the goal list. Or none if not present. */
     index?: number
+    /** How the goal differs from the previous goal state, if that is shown. */
+    diff?: GoalDiff
 }
 
 
-export function Goal({ goal, filter }: GoalProps) {
+export function Goal({ goal, filter, diff }: GoalProps) {
     const prefix = goal.goalPrefix ?? '⊢ '
-    const filteredList = getFilteredHypotheses(goal.hyps, filter);
+    const hypDiffs = new Map(goal.hyps.map((h, i) => [h, diff?.hyps[i]]))
+    // an invalid regular expression does not filter anything, the filter box shows the error.
+    const regex0 = hypothesisFilterRegex(filter.hypothesisFilter)
+    const regex = regex0 instanceof RegExp ? regex0 : undefined
+    const filteredList = getFilteredHypotheses(goal.hyps, filter, regex);
     const hyps = filter.reverse ? filteredList.slice().reverse() : filteredList;
+    const removedHyps = diff?.removedHyps.map((h, i) => <RemovedHyp hyp={h} key={`removed-${i}`} />) ?? []
     const goalLi = <li key={'goal'}>
         <strong className="goal-vdash">{prefix}</strong>
-        <InteractiveCode fmt={goal.type} />
+        <ChangedSubtreesContext.Provider value={diff?.changed}>
+            <InteractiveCode fmt={goal.type} />
+        </ChangedSubtreesContext.Provider>
     </li>
-    return <div className="font-code tl pre-wrap">
+    return <div className={'font-code tl pre-wrap' + (diff?.status === 'new' ? ' goal-diff-new' : '')}>
+        <HighlightedTextContext.Provider value={regex}>
         <ul className="list pl0">
             {goal.userName && <li key={'case'}><strong className="goal-case">case </strong>{goal.userName}</li>}
             {filter.reverse && goalLi}
-            {hyps.map((h, i) => <Hyp index={i} hyp={h} key={i}/>)}
+            {filter.reverse && removedHyps}
+            {hyps.map((h, i) => <Hyp index={i} hyp={h} key={i} diff={hypDiffs.get(h)} />)}
+            {!filter.reverse && removedHyps}
             {!filter.reverse && goalLi}
         </ul>
+        </HighlightedTextContext.Provider>
+    </div>
+}
+
+/** A goal of the previous goal state which was closed. */
+function ClosedGoal({ goal }: { goal: InteractiveGoal }) {
+    return <div className="font-code tl pre-wrap goal-diff-removed">
+        {goal.userName && <><strong className="goal-case">case </strong>{goal.userName} </>}
+        <strong className="goal-vdash">{goal.goalPrefix ?? '⊢ '}</strong>
+        {TaggedText_stripTags(goal.type)}
     </div>
 }
 
 interface GoalsProps {
     goals: InteractiveGoals
     filter: GoalFilterState
+    /** If present, what changed compared to the previous goal state is highlighted. */
+    diff?: GoalsDiff
 }
 
-export function Goals({ goals, filter }: GoalsProps) {
+export function Goals({ goals, filter, diff }: GoalsProps) {
+    const closedGoals = diff?.closedGoals.map((g, i) => <ClosedGoal key={`closed-${i}`} goal={g} />)
     if (goals.goals.length === 0) {
-        return <>Goals accomplished 🎉</>
+        return <>{closedGoals}Goals accomplished 🎉</>
     } else {
         return <>
-            {goals.goals.map((g, i) => <Goal key={i} goal={g} filter={filter} index={i} />)}
+            {goals.goals.map((g, i) => <Goal key={i} goal={g} filter={filter} index={i} diff={diff?.goals[i]} />)}
+            {closedGoals}
         </>
     }
 }
@@ -1,20 +1,21 @@
 import * as React from 'react';
 import type { Location } from 'vscode-languageserver-protocol';
 
-import { Goals as GoalsUi, Goal as GoalUi, goalsToString, GoalFilterState } from './goals';
-import { basename, DocumentPosition, RangeHelpers, useEvent, usePausableState, useClientNotificationEffect, discardMethodNotFound, mapRpcError } from './util';
+import { Goals as GoalsUi, Goal as GoalUi, GoalFilterButtons, goalsToString, GoalFilterState, hypothesisFilterRegex } from './goals';
+import { basename, DocumentPosition, RangeHelpers, useAsync, useEvent, usePausableState, discardMethodNotFound, mapRpcError } from './util';
 import { Details } from './collapsing';
-import { EditorContext, ProgressContext, VersionContext } from './contexts';
+import { EditorContext, GoalFilterContext, ProgressContext, VersionContext } from './contexts';
 import { MessagesList, useMessagesFor } from './messages';
 import { getInteractiveGoals, getInteractiveTermGoal, InteractiveDiagnostic, InteractiveGoal,
-    InteractiveGoals, UserWidgets, Widget_getWidgets, RpcSessionAtPos, isRpcError, RpcErrorCode } from '@leanprover/infoview-api';
+    InteractiveGoals, UserWidgets, Widget_getWidgets, RpcSessionAtPos, isRpcError, RpcErrorCode, HypothesisFilter } from '@leanprover/infoview-api';
+import { diffGoals, getGoalsBefore } from './goalDiff';
 import { updatePlainGoals, updateTermGoal } from './goalCompat';
-import { WithTooltipOnHover } from './tooltips'
 import { UserWidget } from './userWidget'
 import { RpcContext, useRpcSessionAtPos } from './rpcSessions';
 
 type InfoStatus = 'loading' | 'updating' | 'error' | 'ready';
-type InfoKind = 'cursor' | 'pin';
+/** A `selection` info shows one of the secondary cursors, the `cursor` info shows the primary one. */
+type InfoKind = 'cursor' | 'selection' | 'pin';
 
 interface InfoPinnable {
     kind: InfoKind;
@@ -22,6 +23,20 @@ interface InfoPinnable {
     onPin: (pos: DocumentPosition) => void;
 }
 
+interface InfoPausable {
+    /** Whether updating starts out paused, e.g. for a pin restored after reloading the infoview. */
+    startPaused?: boolean;
+    /** Called when updating is paused or continued. */
+    onPausedChange?: (isPaused: boolean) => void;
+}
+
+interface InfoFilterable {
+    /** The filter of the hypotheses to start out with, e.g. for a pin restored after reloading the infoview. */
+    startHypothesisFilter?: HypothesisFilter;
+    /** Called when the filter of the hypotheses changes. */
+    onHypothesisFilterChange?: (filter: HypothesisFilter | undefined) => void;
+}
+
 interface InfoStatusBarProps extends InfoPinnable {
     pos: DocumentPosition;
     status: InfoStatus;
@@ -80,7 +95,7 @@ export function InfoStatusBar(props: InfoStatusBarProps) {
     );
 }
 
-interface InfoDisplayProps extends InfoPinnable {
+interface InfoDisplayProps extends InfoPinnable, InfoPausable, InfoFilterable {
     pos: DocumentPosition;
     status: InfoStatus;
     messages: InteractiveDiagnostic[];
@@ -97,7 +112,7 @@ interface InfoDisplayProps extends InfoPinnable {
 export function InfoDisplay(props0: InfoDisplayProps) {
     // Used to update the paused state once if a display update is triggered
     const [shouldRefresh, setShouldRefresh] = React.useState<boolean>(false);
-    const [isPaused, setPaused, props, propsRef] = usePausableState(false, props0);
+    const [isPaused, setPaused, props, propsRef] = usePausableState(props0.startPaused ?? false, props0);
     if (shouldRefresh) {
         propsRef.current = props0;
         setShouldRefresh(false);
@@ -106,12 +121,34 @@ export function InfoDisplay(props0: InfoDisplayProps) {
         await props0.triggerUpdate();
         setShouldRefresh(true);
     };
+    // Each info starts out with the filters of the infoview header, and follows them when they change there.
+    const [defaultGoalFilters] = React.useContext(GoalFilterContext);
     const [goalFilters, setGoalFilters] = React.useState<GoalFilterState>(
-        { reverse: false, isType: true, isInstance: true, isHiddenAssumption: true});
+        { ...defaultGoalFilters, hypothesisFilter: props0.startHypothesisFilter });
+    React.useEffect(() => setGoalFilters(s => ({ ...defaultGoalFilters, hypothesisFilter: s.hypothesisFilter })), [defaultGoalFilters]);
+    const [showHypothesisFilter, setShowHypothesisFilter] = React.useState<boolean>(!!props0.startHypothesisFilter?.text);
 
     const {kind, pos, status, messages, goals, termGoal, error, userWidgets, rpcSess, messagesRpcSess} = props;
 
     const ec = React.useContext(EditorContext);
+    // The diff is against the goals before the tactic at the cursor, which are only requested once it is shown.
+    const [showDiff, setShowDiff] = React.useState<boolean>(false);
+    const sv = React.useContext(VersionContext);
+    const [, goalsBefore] = useAsync(async () => {
+        if (!showDiff || !goals) return undefined;
+        return getGoalsBefore(ec, sv, rpcSess, pos);
+    }, [showDiff, goals, rpcSess, pos.uri, pos.line, pos.character]);
+    const goalsDiff = React.useMemo(() =>
+        showDiff && goals && goalsBefore ? diffGoals(goals, goalsBefore) : undefined,
+        [showDiff, goals, goalsBefore]);
+
+    const onPausedChange = React.useRef(props0.onPausedChange);
+    onPausedChange.current = props0.onPausedChange;
+    React.useEffect(() => onPausedChange.current?.(isPaused), [isPaused]);
+    const onHypothesisFilterChange = React.useRef(props0.onHypothesisFilterChange);
+    onHypothesisFilterChange.current = props0.onHypothesisFilterChange;
+    React.useEffect(() => onHypothesisFilterChange.current?.(goalFilters.hypothesisFilter), [goalFilters.hypothesisFilter]);
+
     let copyGoalToComment: (() => void) | undefined
     if (goals) copyGoalToComment = () => void ec.copyToComment(goalsToString(goals));
 
@@ -140,42 +177,33 @@ export function InfoDisplay(props0: InfoDisplayProps) {
     const hasGoals = status !== 'error' && goals;
     const hasTermGoal = status !== 'error' && termGoal;
     const hasMessages = status !== 'error' && messages.length !== 0;
-    const sortClasses = 'link pointer mh2 dim codicon fr ' + (goalFilters.reverse ? 'codicon-arrow-up ' : 'codicon-arrow-down ');
-    const sortButton = <a className={sortClasses} title="reverse list" onClick={e => {
-        setGoalFilters(s => {
-            return { ...s, reverse: !s.reverse }
-        } ); }
-    } />
-
-    const filterMenu = <span>
-        <a className='link pointer tooltip-menu-content' onClick={e => {
-            setGoalFilters(s => {
-                return { ...s, isType: !s.isType }
-            } ); }}>
-                <span className={'tooltip-menu-icon codicon ' + (goalFilters.isType ? 'codicon-check ' : 'codicon-blank ')}>&nbsp;</span>
-                <span className='tooltip-menu-text '>types</span>
-        </a>
-        <br/>
-        <a className='link pointer tooltip-menu-content' onClick={e => {
-            setGoalFilters(s => {
-                return { ...s, isInstance: !s.isInstance }
-            } ); }}>
-                <span className={'tooltip-menu-icon codicon ' + (goalFilters.isInstance ? 'codicon-check ' : 'codicon-blank ')}>&nbsp;</span>
-                <span className='tooltip-menu-text '>instances</span>
-        </a>
-        <br/>
-        <a className='link pointer tooltip-menu-content' onClick={e => {
-            setGoalFilters(s => {
-                return { ...s, isHiddenAssumption: !s.isHiddenAssumption }
-            } ); }}>
-                <span className={'tooltip-menu-icon codicon ' + (goalFilters.isHiddenAssumption ? 'codicon-check ' : 'codicon-blank ')}>&nbsp;</span>
-                <span className='tooltip-menu-text '>hidden assumptions</span>
-        </a>
-    </span>
-    const filterButton = <span className='fr'>
-        <WithTooltipOnHover mkTooltipContent={() => {return filterMenu}}>
-            <a className={'link pointer mh2 dim codicon ' + ((!goalFilters.isInstance || !goalFilters.isType || !goalFilters.isHiddenAssumption) ? 'codicon-filter-filled ': 'codicon-filter ')}/>
-        </WithTooltipOnHover></span>
+    const diffButton = pos.character > 0 &&
+        <a className={'link pointer mh2 dim codicon fr ' + (showDiff ? 'codicon-diff-removed ' : 'codicon-diff ')}
+           title={showDiff ? 'hide changes' : 'show changes made by the tactic'}
+           onClick={e => { e.preventDefault(); setShowDiff(d => !d); }} />
+
+    const hypothesisFilter = goalFilters.hypothesisFilter ?? { text: '', isRegex: false };
+    const setHypothesisFilter = (f: HypothesisFilter) => setGoalFilters(s => ({ ...s, hypothesisFilter: f.text === '' && !f.isRegex ? undefined : f }));
+    const hypothesisFilterError = hypothesisFilterRegex(hypothesisFilter);
+    const hypothesisFilterButton = <a className={'link pointer mh2 dim codicon fr codicon-search' + (goalFilters.hypothesisFilter?.text ? ' goal-search-option-on' : '')}
+        title={showHypothesisFilter ? 'stop filtering hypotheses' : 'filter hypotheses'}
+        onClick={e => {
+            e.preventDefault();
+            // a hidden filter would still hide hypotheses
+            if (showHypothesisFilter) setHypothesisFilter({ ...hypothesisFilter, text: '' });
+            setShowHypothesisFilter(s => !s);
+        }} />
+    const hypothesisFilterBox = showHypothesisFilter && <div className="mv1">
+        <input type="text" className="goal-search" placeholder="Filter hypotheses by name or type" autoFocus
+            data-abbreviations={hypothesisFilter.isRegex ? 'off' : 'on'}
+            value={hypothesisFilter.text}
+            onChange={e => setHypothesisFilter({ ...hypothesisFilter, text: e.target.value })} />
+        <a className={'link pointer mh2 dim codicon codicon-regex' + (hypothesisFilter.isRegex ? ' goal-search-option-on' : '')}
+            title="use regular expression"
+            onClick={e => { e.preventDefault(); setHypothesisFilter({ ...hypothesisFilter, isRegex: !hypothesisFilter.isRegex }); }} />
+        {typeof hypothesisFilterError === 'string' && <span className="error">{hypothesisFilterError}</span>}
+    </div>
+
     /* Adding {' '} to manage string literals properly: https://reactjs.org/docs/jsx-in-depth.html#string-literals-1 */
     return (
     <RpcContext.Provider value={rpcSess}>
@@ -190,19 +218,21 @@ export function InfoDisplay(props0: InfoDisplayProps) {
             <div style={{display: hasGoals ? 'block' : 'none'}} key="goals">
                 <Details initiallyOpen>
                     <summary className="mv2 pointer">
-                        Tactic state {sortButton} {filterButton}
+                        Tactic state <GoalFilterButtons filter={goalFilters} setFilter={setGoalFilters} /> {hypothesisFilterButton} {diffButton}
                     </summary>
                     <div className='ml1'>
-                        {hasGoals && <GoalsUi goals={goals} filter={goalFilters} />}
+                        {hypothesisFilterBox}
+                        {hasGoals && <GoalsUi goals={goals} filter={goalFilters} diff={goalsDiff} />}
                     </div>
                 </Details>
             </div>
             <div style={{display: hasTermGoal ? 'block' : 'none'}} key="term-goal">
                 <Details initiallyOpen>
                     <summary className="mv2 pointer">
-                        Expected type {sortButton} {filterButton}
+                        Expected type <GoalFilterButtons filter={goalFilters} setFilter={setGoalFilters} /> {hypothesisFilterButton}
                     </summary>
                     <div className='ml1'>
+                        {hypothesisFilterBox}
                         {hasTermGoal && <GoalUi goal={termGoal} filter={goalFilters} />}
                     </div>
                 </Details>
@@ -213,6 +243,9 @@ export function InfoDisplay(props0: InfoDisplayProps) {
                     <Details initiallyOpen>
                         <summary className="mv2 pointer">
                             {widget.name}
+                            <a className="link pointer mh2 dim codicon fr codicon-link-external"
+                               title="open in a separate panel"
+                               onClick={e => { e.preventDefault(); void ec.api.popOutWidget(DocumentPosition.toTdpp(pos), widget); }} />
                         </summary>
                         <div className="ml1">
                              <UserWidget pos={pos} widget={widget}/>
@@ -282,7 +315,7 @@ function useDelayedThrottled(ms: number, cb: () => Promise<void>): () => Promise
  * to avoid flickering when the cursor moved. Otherwise, the component is re-initialised and the
  * goal states reset to `undefined` on cursor moves.
  */
-export type InfoProps = InfoPinnable & { pos?: DocumentPosition };
+export type InfoProps = InfoPinnable & InfoPausable & InfoFilterable & { pos?: DocumentPosition };
 
 /** Fetches info from the server and renders an {@link InfoDisplay}. */
 export function Info(props: InfoProps) {
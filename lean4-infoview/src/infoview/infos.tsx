@@ -1,19 +1,34 @@
 import * as React from 'react';
 import { DidChangeTextDocumentParams, DidCloseTextDocumentParams, TextDocumentContentChangeEvent } from 'vscode-languageserver-protocol';
+import { HypothesisFilter, InfoviewPin } from '@leanprover/infoview-api';
 
 import { EditorContext } from './contexts';
 import { DocumentPosition, Keyed, PositionHelpers, useClientNotificationEffect, useClientNotificationState, useEvent, useEventResult } from './util';
 import { Info, InfoProps } from './info';
 
+type Pin = Keyed<DocumentPosition> & { paused: boolean, hypothesisFilter?: HypothesisFilter };
+
+function isSameHypothesisFilter(a: HypothesisFilter | undefined, b: HypothesisFilter | undefined): boolean {
+    return a?.text === b?.text && a?.isRegex === b?.isRegex;
+}
+
 /** Manages and displays pinned infos, as well as info for the current location. */
 export function Infos() {
     const ec = React.useContext(EditorContext);
 
+    const pinKey = React.useRef<number>(0);
+    const restorePins = (pins: InfoviewPin[]): Pin[] => pins.map(pin => {
+        pinKey.current += 1;
+        return { ...pin, key: pinKey.current.toString() };
+    });
+    // The editor restores the pins of the previous infoview before the server (re)starts and this is shown.
+    const initialPins = React.useMemo(() => restorePins(ec.events.restoredPins.current ?? []), []);
+
     // Update pins when the document changes. In particular, when edits are made
     // earlier in the text such that a pin has to move up or down.
     const [pinnedPositions, setPinnedPositions] = useClientNotificationState(
         'textDocument/didChange',
-        new Array<Keyed<DocumentPosition>>(),
+        initialPins,
         (pinnedPositions, params: DidChangeTextDocumentParams) => {
             if (pinnedPositions.length === 0) return pinnedPositions;
 
@@ -23,7 +38,7 @@ export function Infos() {
                 // NOTE(WN): It's important to make a clone here, otherwise this
                 // actually mutates the pin. React state updates must be pure.
                 // See https://github.com/facebook/react/issues/12856
-                const newPin: Keyed<DocumentPosition> = { ...pin };
+                const newPin: Pin = { ...pin };
                 for (const chg of params.contentChanges) {
                     if (!TextDocumentContentChangeEvent.isIncremental(chg)) {
                         changed = true;
@@ -68,7 +83,7 @@ export function Infos() {
                 return newPin;
             });
 
-            if (changed) return newPins.filter(p => p !== null) as Keyed<DocumentPosition>[];
+            if (changed) return newPins.filter(p => p !== null) as Pin[];
             return pinnedPositions;
         },
         []
@@ -85,9 +100,41 @@ export function Infos() {
 
     const curLoc = useEventResult(ec.events.changedCursorLocation)
     const curPos: DocumentPosition | undefined = curLoc ? { uri: curLoc.uri, ...curLoc.range.start } : undefined
+    // The secondary cursors, which are only shown while they are in the file of the primary one.
+    const selections = useEventResult(ec.events.changedSelections) ?? []
+    const selectionPositions: DocumentPosition[] = curLoc ?
+        selections.slice(1).filter(loc => loc.uri === curLoc.uri).map(loc => ({ uri: loc.uri, ...loc.range.start })) : []
+
+    useEvent(ec.events.restoredPins, pins => setPinnedPositions(pinnedPositions => {
+        // keep the keys when nothing changed, e.g. when the pins are restored after a server restart
+        if (pins.length === pinnedPositions.length &&
+            pins.every((p, i) => DocumentPosition.isEqual(p, pinnedPositions[i]) && p.paused === pinnedPositions[i].paused &&
+                isSameHypothesisFilter(p.hypothesisFilter, pinnedPositions[i].hypothesisFilter)))
+            return pinnedPositions;
+        return restorePins(pins);
+    }), []);
+
+    // Let the editor store the pins, so that they can be restored when the infoview is re-created.
+    React.useEffect(() => {
+        void ec.api.savePins(pinnedPositions.map(({ uri, line, character, paused, hypothesisFilter }) =>
+            ({ uri, line, character, paused, hypothesisFilter })));
+    }, [pinnedPositions]);
+
+    const setPaused = React.useCallback((key: string, paused: boolean) => {
+        setPinnedPositions(pinnedPositions => {
+            if (!pinnedPositions.some(p => p.key === key && p.paused !== paused)) return pinnedPositions;
+            return pinnedPositions.map(p => p.key === key ? { ...p, paused } : p);
+        });
+    }, []);
+
+    const setHypothesisFilter = React.useCallback((key: string, hypothesisFilter: HypothesisFilter | undefined) => {
+        setPinnedPositions(pinnedPositions => {
+            if (!pinnedPositions.some(p => p.key === key && !isSameHypothesisFilter(p.hypothesisFilter, hypothesisFilter))) return pinnedPositions;
+            return pinnedPositions.map(p => p.key === key ? { ...p, hypothesisFilter } : p);
+        });
+    }, []);
 
     // Update pins on UI actions
-    const pinKey = React.useRef<number>(0);
     const isPinned = (pinnedPositions: DocumentPosition[], pos: DocumentPosition) => {
         return pinnedPositions.some(p => DocumentPosition.isEqual(p, pos));
     }
@@ -95,7 +142,7 @@ export function Infos() {
         setPinnedPositions(pinnedPositions => {
             if (isPinned(pinnedPositions, pos)) return pinnedPositions;
             pinKey.current += 1;
-            return [ ...pinnedPositions, { ...pos, key: pinKey.current.toString() } ];
+            return [ ...pinnedPositions, { ...pos, key: pinKey.current.toString(), paused: false } ];
         });
     }, []);
     const unpin = React.useCallback((pos: DocumentPosition) => {
@@ -114,13 +161,16 @@ export function Infos() {
                 return pinnedPositions.filter(p => !DocumentPosition.isEqual(p, curPos));
             } else {
                 pinKey.current += 1;
-                return [ ...pinnedPositions, { ...curPos, key: pinKey.current.toString() } ];
+                return [ ...pinnedPositions, { ...curPos, key: pinKey.current.toString(), paused: false } ];
             }
         });
     }, [curPos?.uri, curPos?.line, curPos?.character]);
 
-    const infoProps: Keyed<InfoProps>[] = pinnedPositions.map(pos => ({ kind: 'pin', onPin: unpin, pos, key: pos.key }));
+    const infoProps: Keyed<InfoProps>[] = pinnedPositions.map(pos => ({ kind: 'pin', onPin: unpin, pos, key: pos.key,
+        startPaused: pos.paused, onPausedChange: paused => setPaused(pos.key, paused),
+        startHypothesisFilter: pos.hypothesisFilter, onHypothesisFilterChange: f => setHypothesisFilter(pos.key, f) }));
     if (curPos) infoProps.push({ kind: 'cursor', onPin: pin, key: 'cursor' });
+    selectionPositions.forEach((pos, i) => infoProps.push({ kind: 'selection', onPin: pin, pos, key: `selection-${i}` }));
 
     return <div>
         {infoProps.map (ps => <Info {...ps} />)}
@@ -7,6 +7,22 @@ import { DetectHoverSpan, HoverState, WithTooltipOnHover } from './tooltips'
 import { Location } from 'vscode-languageserver-protocol'
 import { marked } from 'marked'
 import { RpcContext } from './rpcSessions'
+import { ChangedSubtreesContext } from './goalDiff'
+
+/** Parts of the text which match this are highlighted, e.g. the matches of a search. */
+export const HighlightedTextContext = React.createContext<RegExp | undefined>(undefined)
+
+function highlightMatches(text: string, regex: RegExp): JSX.Element {
+  const parts: (string | JSX.Element)[] = []
+  let last = 0
+  for (const m of text.matchAll(new RegExp(regex.source, regex.flags.replace('g', '') + 'g'))) {
+    if (m[0].length === 0 || m.index === undefined) continue
+    parts.push(text.slice(last, m.index), <span className="goal-search-match" key={m.index}>{m[0]}</span>)
+    last = m.index + m[0].length
+  }
+  parts.push(text.slice(last))
+  return <>{parts}</>
+}
 
 export interface InteractiveTextComponentProps<T> {
   fmt: TaggedText<T>
@@ -25,12 +41,16 @@ export interface InteractiveTaggedTextProps<T> extends InteractiveTextComponentP
  * various embedded information such as `InfoTree`s and `Expr`s.
  * */
 export function InteractiveTaggedText<T>({fmt, InnerTagUi}: InteractiveTaggedTextProps<T>) {
-  if ('text' in fmt) return <>{fmt.text}</>
-  else if ('append' in fmt) return <>
+  const changed = React.useContext(ChangedSubtreesContext)
+  const highlighted = React.useContext(HighlightedTextContext)
+  let elt: JSX.Element
+  if ('text' in fmt) elt = highlighted ? highlightMatches(fmt.text, highlighted) : <>{fmt.text}</>
+  else if ('append' in fmt) elt = <>
     {fmt.append.map((a, i) => <InteractiveTaggedText key={i} fmt={a} InnerTagUi={InnerTagUi} />)}
   </>
-  else if ('tag' in fmt) return <InnerTagUi fmt={fmt.tag[1]} tag={fmt.tag[0]} />
+  else if ('tag' in fmt) elt = <InnerTagUi fmt={fmt.tag[1]} tag={fmt.tag[0]} />
   else throw new Error(`malformed 'TaggedText': '${fmt}'`)
+  return changed?.has(fmt) ? <span className="goal-diff-changed">{elt}</span> : elt
 }
 
 interface TypePopupContentsProps {
@@ -12,11 +12,14 @@ import { LeanFileProgressParams, LeanFileProgressProcessingInfo, defaultInfoview
 import { Infos } from './infos';
 import { AllMessages, WithLspDiagnosticsContext } from './messages';
 import { useClientNotificationEffect, useEventResult, useServerNotificationState } from './util';
-import { EditorContext, ConfigContext, ProgressContext, VersionContext } from './contexts';
+import { EditorContext, ConfigContext, GoalFilterContext, ProgressContext, VersionContext } from './contexts';
+import { GoalFilterButtons, goalFilterStateOfConfig } from './goals';
 import { WithRpcSessions } from './rpcSessions';
 import { EditorConnection, EditorEvents } from './editorConnection';
 import { Event } from './event';
 import { ServerVersion } from './serverVersion';
+import { PoppedOutWidgetView } from './userWidget';
+import { useAbbreviationInput } from './abbreviations';
 
 
 function Main(props: {}) {
@@ -24,6 +27,13 @@ function Main(props: {}) {
 
     /* Set up updates to the global infoview state on editor events. */
     const config = useEventResult(ec.events.changedInfoviewConfig) || defaultInfoviewConfig;
+    useAbbreviationInput(config);
+
+    // The settings only give the defaults, the header can change them until the settings change.
+    const [goalFilters, setGoalFilters] = React.useState(() => goalFilterStateOfConfig(config));
+    React.useEffect(() => setGoalFilters(goalFilterStateOfConfig(config)),
+        [config.infoViewReverseTacticState, config.infoViewHideTypeAssumptions,
+         config.infoViewHideInstanceAssumptions, config.infoViewHideInaccessibleAssumptions]);
 
     const [allProgress, _1] = useServerNotificationState(
         '$/lean/fileProgress',
@@ -52,6 +62,8 @@ function Main(props: {}) {
     const sv = serverInitializeResult ? new ServerVersion(serverInitializeResult.serverInfo?.version ?? '') : undefined;
     // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
     const serverStoppedResult = useEventResult(ec.events.serverStopped);
+    // Set when this infoview is a panel showing a single widget.
+    const poppedOutWidget = useEventResult(ec.events.changedPoppedOutWidget);
     //
     // NB: the cursor may temporarily become `undefined` when a file is closed. In this case
     // it's important not to reconstruct the `WithBlah` wrappers below since they contain state
@@ -61,8 +73,13 @@ function Main(props: {}) {
         ret = <p>Waiting for Lean server to start...</p>
     } else if (serverStoppedResult){
         ret = <div><p>{serverStoppedResult.message}</p><p className="error">{serverStoppedResult.reason}</p></div>
+    } else if (poppedOutWidget) {
+        ret = <PoppedOutWidgetView {...poppedOutWidget} />
     } else {
         ret = <div className="ma1">
+            <div className="mv2 cf">
+                Hypotheses <GoalFilterButtons filter={goalFilters} setFilter={setGoalFilters} />
+            </div>
             <Infos />
             {curUri && <div className="mv2">
                 <AllMessages uri={curUri} />
@@ -72,6 +89,7 @@ function Main(props: {}) {
 
     return (
     <ConfigContext.Provider value={config}>
+        <GoalFilterContext.Provider value={[goalFilters, setGoalFilters]}>
         <VersionContext.Provider value={sv}>
             <WithRpcSessions>
                 <WithLspDiagnosticsContext>
@@ -81,6 +99,7 @@ function Main(props: {}) {
                 </WithLspDiagnosticsContext>
             </WithRpcSessions>
         </VersionContext.Provider>
+        </GoalFilterContext.Provider>
     </ConfigContext.Provider>
     );
 }
@@ -98,9 +117,13 @@ export function renderInfoview(editorApi: EditorApi, uiElement: HTMLElement): In
         serverRestarted: new Event(),
         serverStopped: new Event(),
         changedCursorLocation: new Event(),
+        changedSelections: new Event(),
         changedInfoviewConfig: new Event(),
+        changedAbbreviationUsageCounts: new Event(),
+        restoredPins: new Event(),
         runTestScript: new Event(),
         requestedAction: new Event(),
+        changedPoppedOutWidget: new Event(),
     };
 
     // Challenge: write a type-correct fn from `Eventify<T>` to `T` without using `any`
@@ -117,8 +140,12 @@ export function renderInfoview(editorApi: EditorApi, uiElement: HTMLElement): In
             editorEvents.serverStopped.fire(serverStoppedReason)
         },
         changedCursorLocation: async loc => editorEvents.changedCursorLocation.fire(loc),
+        changedSelections: async locs => editorEvents.changedSelections.fire(locs),
         changedInfoviewConfig: async conf => editorEvents.changedInfoviewConfig.fire(conf),
+        changedAbbreviationUsageCounts: async usageCounts => editorEvents.changedAbbreviationUsageCounts.fire(usageCounts),
+        restoredPins: async pins => editorEvents.restoredPins.fire(pins),
         requestedAction: async action => editorEvents.requestedAction.fire(action),
+        changedPoppedOutWidget: async widget => editorEvents.changedPoppedOutWidget.fire(widget),
         // See https://rollupjs.org/guide/en/#avoiding-eval
         // eslint-disable-next-line @typescript-eslint/no-implied-eval
         runTestScript: async script => new Function(script)(),
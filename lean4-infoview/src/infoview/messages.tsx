@@ -7,7 +7,7 @@ import { LeanDiagnostic, RpcSessionAtPos } from '@leanprover/infoview-api';
 import { basename, escapeHtml, RangeHelpers, usePausableState, useEvent, addUniqueKeys, DocumentPosition, useServerNotificationState } from './util';
 import { ConfigContext, EditorContext, LspDiagnosticsContext, VersionContext } from './contexts';
 import { Details } from './collapsing';
-import { InteractiveMessage } from './traceExplorer';
+import { TracedMessage } from './traceExplorer';
 import { getInteractiveDiagnostics, InteractiveDiagnostic, TaggedText_stripTags } from '@leanprover/infoview-api';
 import { RpcContext, useRpcSessionAtPos } from './rpcSessions';
 
@@ -46,9 +46,7 @@ const MessageView = React.memo(({uri, diag}: MessageViewProps) => {
             </span>
         </summary>
         <div className="ml1">
-            <pre className="font-code pre-wrap">
-                <InteractiveMessage fmt={diag.message} />
-            </pre>
+            <TracedMessage fmt={diag.message} />
         </div>
     </details>
     )
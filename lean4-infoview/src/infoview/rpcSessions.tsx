@@ -1,6 +1,6 @@
 import { RpcSessions, RpcCallParams, RpcReleaseParams, RpcSessionAtPos } from '@leanprover/infoview-api'
 import * as React from 'react'
-import type { DidCloseTextDocumentParams, DocumentUri, TextDocumentPositionParams } from 'vscode-languageserver-protocol'
+import type { DidCloseTextDocumentParams, DidOpenTextDocumentParams, DocumentUri, TextDocumentPositionParams } from 'vscode-languageserver-protocol'
 import { EditorContext } from './contexts'
 import { DocumentPosition, useClientNotificationEffect, useEvent } from './util'
 
@@ -28,6 +28,16 @@ export function WithRpcSessions({ children }: { children: React.ReactNode }) {
         []
     )
 
+    // A file is (re)opened with a new worker when it is restarted or its idle worker is resumed,
+    // so any session we still have for it belongs to a worker which no longer exists.
+    useClientNotificationEffect(
+        'textDocument/didOpen',
+        (params: DidOpenTextDocumentParams) => {
+            sessions.closeSessionForFile(params.textDocument.uri)
+        },
+        []
+    )
+
     // TODO: only restart files for the server that stopped
     useEvent(ec.events.serverRestarted, () => sessions.closeAllSessions())
 
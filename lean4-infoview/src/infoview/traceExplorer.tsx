@@ -2,17 +2,34 @@
  * Traces of any substantial compilation or elaboration process are usually extremely verbose,
  * which makes them slow (or even infeasible) to pretty-print and difficult to understand.
  * Instead, we provide a "TraceExplorer" UI which allows users to lazily expand trace subtrees,
- * and (TODO) execute search queries.
+ * to search them for nodes with a given text or class, and to export them to a file.
  *
  * @module
  */
 
 import * as React from 'react'
-import { Goal } from './goals'
+import { Goal, goalsToString } from './goals'
 import { InteractiveCode, InteractiveTaggedText, InteractiveTagProps, InteractiveTextComponentProps } from './interactiveCode'
-import { InteractiveDiagnostics_msgToInteractive, MessageData, MsgEmbed, TaggedText } from '@leanprover/infoview-api'
-import { mapRpcError } from './util'
+import { InteractiveDiagnostics_msgToInteractive, MessageData, MsgEmbed, RpcPtr, RpcSessionAtPos, TaggedText, TaggedText_stripTags } from '@leanprover/infoview-api'
+import { escapeHtml, mapRpcError } from './util'
 import { RpcContext } from './rpcSessions'
+import { EditorContext } from './contexts'
+import { WithTooltipOnHover } from './tooltips'
+
+interface TraceSearchState {
+    /**
+     * The contents of the trace nodes which were expanded, by `RpcPtr.toKey` of the node.
+     * Expanding a node again gives new pointers for its children, so the search and the explorer
+     * share these to agree on the nodes.
+     */
+    fetched: Map<string, TaggedText<MsgEmbed>>
+    /** The nodes which match the search query. */
+    matches: Set<string>
+    /** The nodes which are expanded to show the matches, i.e. the matches and their ancestors. */
+    open: Set<string>
+}
+
+const TraceSearchContext = React.createContext<TraceSearchState | undefined>(undefined)
 
 function CollapsibleTrace({col, cls, msg}: {col: number, cls: string, msg: MessageData}) {
     type State =
@@ -22,30 +39,49 @@ function CollapsibleTrace({col, cls, msg}: {col: number, cls: string, msg: Messa
         { state: 'error', err: string }
 
     const rs = React.useContext(RpcContext)
+    const search = React.useContext(TraceSearchContext)
+    const key = RpcPtr.toKey(msg)
     const [st, setSt] = React.useState<State>({state: 'collapsed'})
 
     const fetchTrace = () => {
+        const fetched = search?.fetched.get(key)
+        if (fetched) {
+            setSt({state: 'open', tt: fetched})
+            return
+        }
         setSt({state: 'loading'})
         void InteractiveDiagnostics_msgToInteractive(rs, msg, col)
-            .then(tt => setSt({state: 'open', tt}))
+            .then(tt => {
+                search?.fetched.set(key, tt)
+                setSt({state: 'open', tt})
+            })
             .catch(e => setSt({state: 'error', err: mapRpcError(e).toString()}))
     }
 
+    // Nodes leading to a search result are expanded, this does not collapse them again afterwards.
+    const isSearchOpen = search?.open.has(key) ?? false
+    React.useEffect(() => {
+        const fetched = search?.fetched.get(key)
+        if (isSearchOpen && fetched) setSt({state: 'open', tt: fetched})
+    }, [isSearchOpen])
+
+    const clsClassName = 'underline-hover pointer' + (search?.matches.has(key) ? ' trace-match' : '')
     if (st.state === 'collapsed')
-        return <span className="underline-hover pointer"
+        return <><span className={clsClassName}
             onClick={ev => {
                 fetchTrace()
                 ev.stopPropagation()
-            }}>[{cls}] &gt;</span>
+            }}>[{cls}] &gt;</span><TraceExportButton trace={[col, cls, msg]} /></>
     else if (st.state === 'loading')
         return <span>[{cls}] Loading..</span>
     else if (st.state === 'open')
         return <>
-            <span className="underline-hover pointer"
+            <span className={clsClassName}
                 onClick={ev => {
                     setSt({state: 'collapsed'})
                     ev.stopPropagation()
                 }}>[{cls}] ∨</span>
+            <TraceExportButton trace={[col, cls, msg]} />
             <InteractiveMessage fmt={st.tt} />
         </>
     else if (st.state === 'error')
@@ -71,3 +107,318 @@ function InteractiveMessageTag({tag: embed, fmt}: InteractiveTagProps<MsgEmbed>)
 export function InteractiveMessage({fmt}: InteractiveTextComponentProps<MsgEmbed>) {
     return InteractiveTaggedText({fmt, InnerTagUi: InteractiveMessageTag})
 }
+
+type LazyTrace = [number, string, MessageData]
+
+/** The trace nodes directly below the given message, i.e. not within other trace nodes. */
+function childTraces(tt: TaggedText<MsgEmbed>): LazyTrace[] {
+    if ('text' in tt) return []
+    else if ('append' in tt) return tt.append.flatMap(childTraces)
+    else if ('lazyTrace' in tt.tag[0]) return [tt.tag[0].lazyTrace]
+    else return []
+}
+
+/** The text of a message without the text of its trace nodes. */
+function messageText(tt: TaggedText<MsgEmbed>): string {
+    if ('text' in tt) return tt.text
+    else if ('append' in tt) return tt.append.map(messageText).join('')
+    const embed = tt.tag[0]
+    if ('expr' in embed) return TaggedText_stripTags(embed.expr)
+    else if ('goal' in embed) return goalsToString({goals: [embed.goal]})
+    else return ''
+}
+
+/**
+ * How many trace nodes a search expands before it asks whether to continue,
+ * and how many an export expands at most.
+ */
+const traceNodeBudget = 1000
+
+/** A trace node with all of its children expanded. */
+interface TraceTree {
+    cls: string
+    text: string
+    children: TraceTree[]
+    /** Set if some of the children were left out, because the export expanded as many nodes as it may. */
+    truncated?: boolean
+}
+
+/** An export in progress, which stops once cancelled, e.g. when the trace is not shown anymore. */
+interface TraceExportTask {
+    cancelled: boolean
+    /** The number of nodes expanded so far. */
+    expanded: number
+}
+
+/**
+ * Expands the given trace node and its descendants depth-first, as long as `task` expanded less than `budget` nodes.
+ * Returns `undefined` if the node itself is beyond the budget or the task was cancelled.
+ */
+async function expandTraceTree(rs: RpcSessionAtPos, fetched: Map<string, TaggedText<MsgEmbed>> | undefined,
+        [col, cls, msg]: LazyTrace, task: TraceExportTask, budget: number, onNode: () => void): Promise<TraceTree | undefined> {
+    if (task.cancelled || task.expanded >= budget) return undefined
+    const key = RpcPtr.toKey(msg)
+    let tt = fetched?.get(key)
+    if (!tt) {
+        tt = await InteractiveDiagnostics_msgToInteractive(rs, msg, col)
+        if (task.cancelled) return undefined
+        fetched?.set(key, tt)
+    }
+    task.expanded++
+    onNode()
+    // One node after the other, so that exporting a huge trace does not flood the server with requests.
+    const children: TraceTree[] = []
+    let truncated = false
+    for (const child of childTraces(tt)) {
+        const tree = await expandTraceTree(rs, fetched, child, task, budget, onNode)
+        if (tree) children.push(tree)
+        else truncated = true
+    }
+    return { cls, text: messageText(tt).trim(), children, ...(truncated ? { truncated } : {}) }
+}
+
+function hasTruncatedNode(t: TraceTree): boolean {
+    return !!t.truncated || t.children.some(hasTruncatedNode)
+}
+
+/** Stands for the children left out of a truncated node. */
+const truncatedText = '(truncated)'
+
+function traceTreeToText(t: TraceTree, indent: string = ''): string {
+    const lines = `[${t.cls}] ${t.text}`.split('\n').map(l => indent + l)
+    const truncated = t.truncated ? [`${indent}  ${truncatedText}`] : []
+    return [...lines, ...t.children.map(c => traceTreeToText(c, indent + '  ')), ...truncated].join('\n')
+}
+
+function traceTreeToHtml(t: TraceTree): string {
+    const summary = `[${escapeHtml(t.cls)}] ${escapeHtml(t.text)}`
+    if (t.children.length === 0 && !t.truncated) return `<div>${summary}</div>`
+    const truncated = t.truncated ? `<div>${truncatedText}</div>` : ''
+    return `<details><summary>${summary}</summary>${t.children.map(traceTreeToHtml).join('')}${truncated}</details>`
+}
+
+type TraceExportFormat = 'text' | 'json' | 'html'
+
+const traceExportFormats: {[F in TraceExportFormat]: {name: string, extension: string, render: (t: TraceTree) => string}} = {
+    'text': { name: 'Text', extension: 'txt', render: t => traceTreeToText(t) + '\n' },
+    'json': { name: 'JSON', extension: 'json', render: t => JSON.stringify(t, null, 2) },
+    'html': { name: 'HTML', extension: 'html', render: t => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>[${escapeHtml(t.cls)}] trace</title>
+<style>
+body { font-family: monospace; white-space: pre-wrap; }
+details > details, details > div { margin-left: 1.5em; }
+</style>
+</head>
+<body>
+${traceTreeToHtml(t)}
+</body>
+</html>
+` },
+}
+
+/**
+ * Expands a trace node completely, or up to `traceNodeBudget` nodes, and lets the user save it
+ * in one of the `traceExportFormats`.
+ */
+function TraceExportButton({trace}: {trace: LazyTrace}) {
+    const rs = React.useContext(RpcContext)
+    const ec = React.useContext(EditorContext)
+    const search = React.useContext(TraceSearchContext)
+    const [status, setStatus] = React.useState<JSX.Element | string | undefined>()
+    const task = React.useRef<TraceExportTask | undefined>()
+    React.useEffect(() => () => { if (task.current) task.current.cancelled = true }, [])
+
+    const cancelExport = () => {
+        if (task.current) task.current.cancelled = true
+        setStatus(undefined)
+    }
+    const exporting = (nodes: number) => <>Exporting.. ({nodes} nodes){' '}
+        <a className="link pointer dim" onClick={e => { e.preventDefault(); e.stopPropagation(); cancelExport() }}>Cancel</a></>
+
+    const exportTrace = async (format: TraceExportFormat) => {
+        if (task.current) task.current.cancelled = true
+        const t: TraceExportTask = {cancelled: false, expanded: 0}
+        task.current = t
+        setStatus(exporting(0))
+        try {
+            const tree = await expandTraceTree(rs, search?.fetched, trace, t, traceNodeBudget, () => {
+                if (t.expanded % 25 === 0) setStatus(exporting(t.expanded))
+            })
+            if (t.cancelled || !tree) return
+            setStatus(hasTruncatedNode(tree) ?
+                `Exported only the first ${t.expanded} nodes, the others are marked as ${truncatedText}.` : undefined)
+            const {name, extension, render} = traceExportFormats[format]
+            await ec.api.saveFile(render(tree), `trace-${trace[1]}.${extension}`, {[name]: [extension]})
+        } catch (e) {
+            if (!t.cancelled) setStatus(`Export failed: ${mapRpcError(e).toString()}`)
+        }
+    }
+
+    const menu = <span>
+        {(Object.keys(traceExportFormats) as TraceExportFormat[]).map((f, i) => <React.Fragment key={f}>
+            {i > 0 && <br/>}
+            <a className='link pointer tooltip-menu-content' onClick={e => {
+                e.stopPropagation()
+                void exportTrace(f)
+            }}>
+                <span className='tooltip-menu-text'>as {traceExportFormats[f].name}</span>
+            </a>
+        </React.Fragment>)}
+    </span>
+    return <>
+        <WithTooltipOnHover mkTooltipContent={() => menu}>
+            <a className='link pointer mh2 dim codicon codicon-save-as' title='export trace' />
+        </WithTooltipOnHover>
+        {status}
+    </>
+}
+
+interface TraceSearchTask {
+    cancelled: boolean
+    /** The nodes which remain to be searched, with the keys of their ancestors. */
+    queue: [LazyTrace, string[]][]
+    matches: (cls: string, text: string) => boolean
+    searched: number
+}
+
+/**
+ * Searches the trace nodes of `task` breadth-first, expanding at most `budget` of them.
+ * Returns whether there are nodes left to search.
+ */
+async function searchTraces(rs: RpcSessionAtPos, task: TraceSearchTask, state: TraceSearchState, budget: number,
+        onProgress: (foundMatch: boolean) => void): Promise<boolean> {
+    for (let i = 0; i < budget; i++) {
+        const next = task.queue.shift()
+        if (!next || task.cancelled) break
+        const [[col, cls, msg], ancestors] = next
+        const key = RpcPtr.toKey(msg)
+        let tt = state.fetched.get(key)
+        if (!tt) {
+            tt = await InteractiveDiagnostics_msgToInteractive(rs, msg, col)
+            if (task.cancelled) break
+            state.fetched.set(key, tt)
+        }
+        task.searched++
+        const foundMatch = task.matches(cls, messageText(tt))
+        if (foundMatch) {
+            state.matches.add(key)
+            for (const a of [...ancestors, key]) state.open.add(a)
+        }
+        task.queue.push(...childTraces(tt).map(t => [t, [...ancestors, key]] as [LazyTrace, string[]]))
+        onProgress(foundMatch)
+    }
+    return task.queue.length > 0
+}
+
+function mkMatcher(query: string, isRegex: boolean): (cls: string, text: string) => boolean {
+    if (isRegex) {
+        const re = new RegExp(query)
+        return (cls, text) => re.test(cls) || re.test(text)
+    }
+    const q = query.toLowerCase()
+    return (cls, text) => cls.toLowerCase().includes(q) || text.toLowerCase().includes(q)
+}
+
+/**
+ * Shows a message with a search box for its trace, if it has one.
+ * Searching expands the trace nodes lazily, highlights the nodes whose class or text matches,
+ * and expands the nodes leading to them.
+ */
+export function TracedMessage({fmt}: InteractiveTextComponentProps<MsgEmbed>) {
+    const rs = React.useContext(RpcContext)
+    const fetched = React.useMemo(() => new Map<string, TaggedText<MsgEmbed>>(), [fmt])
+    const [state, setState] = React.useState<TraceSearchState>({fetched, matches: new Set(), open: new Set()})
+    const [query, setQuery] = React.useState('')
+    const [isRegex, setRegex] = React.useState(false)
+    type Status =
+        { status: 'idle' } |
+        { status: 'searching' | 'paused' | 'done', searched: number, matches: number } |
+        { status: 'error', err: string }
+    const [status, setStatus] = React.useState<Status>({status: 'idle'})
+    const task = React.useRef<TraceSearchTask | undefined>()
+    React.useEffect(() => {
+        setState(st => st.fetched === fetched ? st : {fetched, matches: new Set(), open: new Set()})
+        setStatus({status: 'idle'})
+        return () => { if (task.current) task.current.cancelled = true }
+    }, [fetched])
+
+    const roots = React.useMemo(() => childTraces(fmt), [fmt])
+    const run = async (t: TraceSearchTask, st: TraceSearchState) => {
+        task.current = t
+        setStatus({status: 'searching', searched: t.searched, matches: st.matches.size})
+        try {
+            const hasMore = await searchTraces(rs, t, st, traceNodeBudget, foundMatch => {
+                if (foundMatch) setState({...st})
+                if (foundMatch || t.searched % 25 === 0)
+                    setStatus({status: 'searching', searched: t.searched, matches: st.matches.size})
+            })
+            if (t.cancelled) return
+            setStatus({status: hasMore ? 'paused' : 'done', searched: t.searched, matches: st.matches.size})
+        } catch (e) {
+            if (!t.cancelled) setStatus({status: 'error', err: mapRpcError(e).toString()})
+        }
+    }
+    const startSearch = () => {
+        if (task.current) task.current.cancelled = true
+        let matches: (cls: string, text: string) => boolean
+        try {
+            matches = mkMatcher(query, isRegex)
+        } catch (e) {
+            setStatus({status: 'error', err: `${e}`})
+            return
+        }
+        const st: TraceSearchState = {fetched, matches: new Set(), open: new Set()}
+        setState(st)
+        if (query === '') {
+            task.current = undefined
+            setStatus({status: 'idle'})
+            return
+        }
+        void run({cancelled: false, queue: roots.map(r => [r, []]), matches, searched: 0}, st)
+    }
+    const cancelSearch = () => {
+        if (!task.current) return
+        task.current.cancelled = true
+        setStatus(s => s.status === 'searching' ? {...s, status: 'paused'} : s)
+    }
+    const continueSearch = () => {
+        if (!task.current) return
+        task.current.cancelled = false
+        void run(task.current, state)
+    }
+
+    let statusText: JSX.Element | undefined
+    if (status.status === 'searching')
+        statusText = <>Searched {status.searched} nodes, {status.matches} matches.{' '}
+            <a className="link pointer dim" onClick={e => { e.preventDefault(); cancelSearch() }}>Cancel</a></>
+    else if (status.status === 'paused')
+        statusText = <>Searched {status.searched} nodes, {status.matches} matches.{' '}
+            <a className="link pointer dim" onClick={e => { e.preventDefault(); continueSearch() }}>Search further</a></>
+    else if (status.status === 'done')
+        statusText = <>Searched all {status.searched} nodes, {status.matches} matches.</>
+    else if (status.status === 'error')
+        statusText = <span className="error">{status.err}</span>
+
+    const message = <pre className="font-code pre-wrap">
+        <InteractiveMessage fmt={fmt} />
+    </pre>
+    if (roots.length === 0) return message
+    return <TraceSearchContext.Provider value={state}>
+        <div className="mv1">
+            <input type="text" className="trace-search" placeholder="Search trace"
+                data-abbreviations={isRegex ? 'off' : 'on'}
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') startSearch() }} />
+            <a className={'link pointer mh2 dim codicon codicon-regex' + (isRegex ? ' trace-search-option-on' : '')}
+                title="use regular expression" onClick={e => { e.preventDefault(); setRegex(r => !r) }} />
+            <a className="link pointer mh2 dim codicon codicon-search" title="search"
+                onClick={e => { e.preventDefault(); startSearch() }} />
+            {statusText}
+        </div>
+        {message}
+    </TraceSearchContext.Provider>
+}
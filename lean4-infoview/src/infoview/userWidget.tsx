@@ -1,8 +1,8 @@
 import * as React from 'react';
 
-import { Widget_getWidgetSource, UserWidget, UserWidgetInstance } from '@leanprover/infoview-api';
-import { RpcContext } from './rpcSessions';
-import { DocumentPosition, mapRpcError, useAsync } from './util';
+import { Widget_getWidgetSource, Widget_getWidgets, UserWidget, UserWidgetInstance, PoppedOutWidget } from '@leanprover/infoview-api';
+import { RpcContext, useRpcSessionAtTdpp } from './rpcSessions';
+import { DocumentPosition, discardMethodNotFound, mapRpcError, useAsync } from './util';
 import { ErrorBoundary } from './errors';
 
 function dynamicallyLoadComponent(hash: string, code: string) {
@@ -46,3 +46,34 @@ export function UserWidget({ pos, widget }: UserWidgetProps) {
         </React.Suspense>
     )
 }
+
+/**
+ * Shows a widget popped out of the infoview into a panel of its own. Whenever its position moves,
+ * the widget is looked up there again so that it shows the props of the edited document.
+ */
+export function PoppedOutWidgetView({ pos: tdpp, widget: widget0 }: PoppedOutWidget) {
+    const rs = useRpcSessionAtTdpp(tdpp)
+    const pos: DocumentPosition = { uri: tdpp.textDocument.uri, ...tdpp.position }
+    const [widget, setWidget] = React.useState<UserWidgetInstance>(widget0)
+    const [status, widgets, error] = useAsync(
+        async () => await Widget_getWidgets(rs, pos).catch(discardMethodNotFound),
+        [rs, DocumentPosition.toString(pos), widget0])
+    React.useEffect(() => {
+        // Until the widget is found again, e.g. while the file is being processed, the last one stays.
+        const w = widgets?.widgets.find(w => w.id === widget0.id)
+        if (w) setWidget(w)
+    }, [widgets])
+
+    return (
+        <div className="ma1">
+            <div className="mv2">
+                {widget.name} <span className="o-60">{DocumentPosition.toString(pos)}</span>
+                {status === 'pending' && <span className="o-60"> (updating)</span>}
+            </div>
+            {error && <div className="error">{mapRpcError(error).message}</div>}
+            <RpcContext.Provider value={rs}>
+                <UserWidget pos={pos} widget={widget} />
+            </RpcContext.Provider>
+        </div>
+    )
+}
@@ -0,0 +1,109 @@
+import * as assert from 'assert'
+import { suite, test } from 'mocha'
+import type { Position } from 'vscode-languageserver-protocol'
+import { CodeWithInfos, InteractiveGoal, InteractiveHypothesisBundle, PlainGoal, RpcSessionAtPos, SubexprInfo } from '@leanprover/infoview-api'
+import { diffGoals, getGoalsBefore } from '../src/infoview/goalDiff'
+import type { EditorConnection } from '../src/infoview/editorConnection'
+import type { DocumentPosition } from '../src/infoview/util'
+
+const info = { info: { p: '0' } } as SubexprInfo
+
+function text(t: string): CodeWithInfos {
+    return { text: t }
+}
+
+/** `f a b` with a tag around each argument, like the server sends applications. */
+function app(...args: string[]): CodeWithInfos {
+    return { tag: [info, { append: args.flatMap((a, i) => i === 0 ? [text(a)] : [text(' '), { tag: [info, text(a)] }]) }] }
+}
+
+function hyp(name: string, type: CodeWithInfos): InteractiveHypothesisBundle {
+    return { names: [name], type }
+}
+
+function goal(type: CodeWithInfos, hyps: InteractiveHypothesisBundle[], mvarId?: string, userName?: string): InteractiveGoal {
+    return { type, hyps, mvarId, userName }
+}
+
+suite('diffGoals', () => {
+    test('unchanged goals', () => {
+        const g = goal(app('p', 'x'), [hyp('h', app('q', 'x'))], '_uniq.1')
+        const diff = diffGoals({ goals: [g] }, { goals: [g] })
+        assert.strictEqual(diff.goals[0].status, 'unchanged')
+        assert.deepStrictEqual(diff.closedGoals, [])
+    })
+
+    test('marks only the smallest changed subtree', () => {
+        const y = text('y')
+        const cur: CodeWithInfos = { tag: [info, { append: [text('p'), text(' '), { tag: [info, y] }] }] }
+        const diff = diffGoals({ goals: [goal(cur, [], '_uniq.2')] }, { goals: [goal(app('p', 'x'), [], '_uniq.1')] })
+        // the goals are matched in order, and only the argument changed.
+        assert.strictEqual(diff.goals[0].status, 'changed')
+        assert.deepStrictEqual([...diff.goals[0].changed], [y])
+    })
+
+    test('matches hypotheses by name', () => {
+        const prev = goal(text('p'), [hyp('h', app('q', 'x')), hyp('gone', text('r'))], '_uniq.1')
+        const cur = goal(text('p'), [hyp('h', app('q', 'y')), hyp('new', text('s'))], '_uniq.1')
+        const diff = diffGoals({ goals: [cur] }, { goals: [prev] }).goals[0]
+        assert.strictEqual(diff.status, 'changed')
+        assert.deepStrictEqual(diff.hyps.map(h => h.status), ['changed', 'added'])
+        assert.deepStrictEqual(diff.removedHyps.map(h => h.names), [['gone']])
+    })
+
+    test('matches goals by metavariable and case before their order', () => {
+        const left = goal(text('p'), [], '_uniq.1', 'left')
+        const right = goal(text('q'), [], '_uniq.2', 'right')
+        const right2 = goal(text('q'), [], '_uniq.3', 'right')
+        const diff = diffGoals({ goals: [right2] }, { goals: [left, right] })
+        // `left` was closed, and `right` is the same goal under a new metavariable.
+        assert.strictEqual(diff.goals[0].status, 'unchanged')
+        assert.deepStrictEqual(diff.closedGoals, [left])
+    })
+
+    test('new goals', () => {
+        const diff = diffGoals({ goals: [goal(text('p'), [], '_uniq.1'), goal(text('q'), [hyp('h', text('r'))], '_uniq.2')] },
+            { goals: [goal(text('p'), [], '_uniq.1')] })
+        assert.deepStrictEqual(diff.goals.map(g => g.status), ['unchanged', 'new'])
+    })
+})
+
+suite('getGoalsBefore', () => {
+    const uri = 'file:///Main.lean'
+    const rpcSess: RpcSessionAtPos = { call: async () => { throw new Error('no RPC without widgets') } }
+
+    /** An editor where the tactic at every position starts at `tacticStart`, and which records the goal requests. */
+    function editor(tacticStart: Position | undefined, requested: DocumentPosition[]): EditorConnection {
+        const ec = {
+            api: { getTacticStart: async () => tacticStart },
+            requestPlainGoal: async (pos: DocumentPosition): Promise<PlainGoal> => {
+                requested.push(pos)
+                return { rendered: '', goals: ['⊢ p'] }
+            },
+        }
+        return ec as unknown as EditorConnection
+    }
+
+    test('the goals at the start of the tactic on the same line', async () => {
+        // `  constructor; simp`, with the cursor in `simp`.
+        const requested: DocumentPosition[] = []
+        const goals = await getGoalsBefore(editor({ line: 3, character: 15 }, requested), undefined, rpcSess,
+            { uri, line: 3, character: 17 })
+        assert.deepStrictEqual(requested, [{ uri, line: 3, character: 15 }])
+        assert.strictEqual(goals?.goals.length, 1)
+    })
+
+    test('the goals at the start of a tactic on a previous line', async () => {
+        const requested: DocumentPosition[] = []
+        await getGoalsBefore(editor({ line: 2, character: 2 }, requested), undefined, rpcSess, { uri, line: 4, character: 6 })
+        assert.deepStrictEqual(requested, [{ uri, line: 2, character: 2 }])
+    })
+
+    test('nothing without a tactic or at its start', async () => {
+        const requested: DocumentPosition[] = []
+        const pos = { uri, line: 3, character: 15 }
+        assert.strictEqual(await getGoalsBefore(editor(undefined, requested), undefined, rpcSess, pos), undefined)
+        assert.strictEqual(await getGoalsBefore(editor({ line: 3, character: 15 }, requested), undefined, rpcSess, pos), undefined)
+        assert.deepStrictEqual(requested, [])
+    })
+})
@@ -0,0 +1,97 @@
+import {
+	commands,
+	CompletionItem,
+	CompletionItemKind,
+	CompletionItemProvider,
+	Disposable,
+	Position,
+	SnippetString,
+	TextDocument,
+	window,
+} from 'vscode';
+import { AbbreviationProvider } from './AbbreviationProvider';
+import { AbbreviationConfig } from './config';
+import { AbbreviationRewriterFeature } from './rewriter/AbbreviationRewriterFeature';
+
+/**
+ * Lists all abbreviations which start with the abbreviation that is being typed, together with their symbols,
+ * so that one can see that e.g. `\le` could also become `\leq` or `\leftarrow`.
+ * They are ranked like the rewriter ranks them: the typed abbreviation itself comes first,
+ * then those of the symbols that the user completed most often.
+ */
+export class AbbreviationCompletionProvider implements CompletionItemProvider, Disposable {
+	private static readonly acceptedCommand = 'lean4.input.completionAccepted';
+	private readonly disposables = new Array<Disposable>();
+
+	constructor(
+		private readonly config: AbbreviationConfig,
+		private readonly abbreviations: AbbreviationProvider,
+		private readonly rewriters: AbbreviationRewriterFeature
+	) {
+		this.disposables.push(
+			commands.registerCommand(AbbreviationCompletionProvider.acceptedCommand, (symbol: string) => {
+				// The accepted completions count just like the abbreviations replaced by the rewriter.
+				if (window.activeTextEditor) {
+					this.abbreviations.onAbbreviationsCompleted(window.activeTextEditor, [symbol]);
+				}
+			})
+		);
+	}
+
+	provideCompletionItems(
+		document: TextDocument,
+		position: Position
+	): CompletionItem[] | undefined {
+		const rewriter = this.rewriters.activeRewriter;
+		if (!rewriter || !this.config.completionsEnabled.get()) {
+			return undefined;
+		}
+		const tracked = rewriter.getTrackedAbbreviationAt(position);
+		if (!tracked) {
+			return undefined;
+		}
+
+		const leader = this.config.abbreviationCharacter.get();
+		// In the order in which the rewriter picks the symbol, so that the first item is what typing on would give.
+		const matches = this.abbreviations.findAbbreviationsByPrefix(tracked.abbreviation);
+
+		return matches.map((abbr, i) => {
+			const symbol = this.abbreviations.symbolsByAbbreviation[abbr];
+			const item = new CompletionItem(
+				{ label: leader + abbr, description: symbol.replace('$CURSOR', '') },
+				CompletionItemKind.Text
+			);
+			// The leader is part of the range, so it has to be part of the filter text as well.
+			item.filterText = leader + abbr;
+			item.sortText = i.toString().padStart(6, '0');
+			item.range = tracked.range;
+			item.insertText = toSnippet(symbol);
+			item.command = {
+				title: '',
+				command: AbbreviationCompletionProvider.acceptedCommand,
+				arguments: [symbol],
+			};
+			return item;
+		});
+	}
+
+	dispose(): void {
+		for (const d of this.disposables) {
+			d.dispose();
+		}
+	}
+}
+
+/** Places the cursor at `$CURSOR` after the symbol is inserted, like the rewriter does. */
+function toSnippet(symbol: string): SnippetString {
+	const cursorVar = '$CURSOR';
+	const cursorOffset = symbol.indexOf(cursorVar);
+	const snippet = new SnippetString();
+	if (cursorOffset === -1) {
+		return snippet.appendText(symbol);
+	}
+	return snippet
+		.appendText(symbol.slice(0, cursorOffset))
+		.appendTabstop(0)
+		.appendText(symbol.slice(cursorOffset + cursorVar.length));
+}
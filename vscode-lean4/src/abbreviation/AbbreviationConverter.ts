@@ -0,0 +1,61 @@
+import { commands, Disposable, Range, TextEditor, TextEditorEdit, window } from 'vscode';
+import { AbbreviationTable, replaceAbbreviationsBySymbols, replaceSymbolsByAbbreviations } from '@leanprover/infoview-api';
+import { AbbreviationProvider } from './AbbreviationProvider';
+import { AbbreviationConfig } from './config';
+
+/**
+ * Provides commands to convert the symbols in the selections (or the whole file) to abbreviations,
+ * and the abbreviations in the selections back to symbols,
+ * e.g. for sharing code with places where the symbols cannot be typed or shown.
+ * The latter never converts the whole file, since the leader also occurs in strings like `"\n"`.
+ */
+export class AbbreviationConverterFeature implements Disposable {
+	private readonly disposables = new Array<Disposable>();
+
+	constructor(
+		private readonly config: AbbreviationConfig,
+		private readonly abbreviations: AbbreviationProvider
+	) {
+		this.disposables.push(
+			commands.registerTextEditorCommand(
+				'lean4.input.convertSymbolsToAbbreviations',
+				(editor, edit) => this.convert(editor, edit, replaceSymbolsByAbbreviations, true)
+			),
+			commands.registerTextEditorCommand(
+				'lean4.input.convertAbbreviationsToSymbols',
+				(editor, edit) => this.convert(editor, edit, replaceAbbreviationsBySymbols, false)
+			)
+		);
+	}
+
+	private convert(
+		editor: TextEditor,
+		edit: TextEditorEdit,
+		replace: (text: string, table: AbbreviationTable, leader: string) => string,
+		wholeFileIfNothingSelected: boolean
+	) {
+		const document = editor.document;
+		let ranges: Range[] = editor.selections.filter((s) => !s.isEmpty);
+		if (ranges.length === 0 && !wholeFileIfNothingSelected) {
+			void window.showInformationMessage('Select the text whose abbreviations should be converted to symbols.');
+			return;
+		}
+		if (ranges.length === 0) {
+			ranges = [document.validateRange(new Range(0, 0, document.lineCount, 0))];
+		}
+		const leader = this.config.abbreviationCharacter.get();
+		for (const range of ranges) {
+			const text = document.getText(range);
+			const newText = replace(text, this.abbreviations.table, leader);
+			if (newText !== text) {
+				edit.replace(range, newText);
+			}
+		}
+	}
+
+	dispose(): void {
+		for (const d of this.disposables) {
+			d.dispose();
+		}
+	}
+}
@@ -1,47 +1,106 @@
 import { computed } from 'mobx';
 import { Disposable, EventEmitter, TextEditor  } from 'vscode';
+import { AbbreviationTable } from '@leanprover/infoview-api';
 import { autorunDisposable } from '../utils/autorunDisposable';
+import { LocalStorageService } from '../utils/localStorage';
 import * as abbreviations from './abbreviations.json';
 import { SymbolsByAbbreviation, AbbreviationConfig } from './config';
+import { ProjectAbbreviations } from './ProjectAbbreviations';
 
 /**
  * Answers queries to a database of abbreviations.
  */
 export class AbbreviationProvider implements Disposable {
 	private readonly disposables = new Array<Disposable>();
-	private cache: Record<string, string | undefined> = {};
+	/** How often the user completed an abbreviation, by the symbol it was replaced with. */
+	private usageCounts: Map<string, number>;
 
-    private abbreviationCompletedEmitter = new EventEmitter<TextEditor>();
+    private abbreviationCompletedEmitter = new EventEmitter<AbbreviationsCompleted>();
     abbreviationCompleted = this.abbreviationCompletedEmitter.event
 
-	constructor(private readonly config: AbbreviationConfig) {
+	private symbolsChangedEmitter = new EventEmitter<SymbolsByAbbreviation>();
+	/** Fires when the abbreviations change, e.g. because of the settings or the package of the active editor. */
+	symbolsChanged = this.symbolsChangedEmitter.event;
+
+	private usageCountsChangedEmitter = new EventEmitter<void>();
+	/** Fires when the usage counts change, which may change the best match of ambiguous abbreviations. */
+	usageCountsChanged = this.usageCountsChangedEmitter.event;
+
+	constructor(
+		private readonly config: AbbreviationConfig,
+		private readonly projectAbbreviations: ProjectAbbreviations,
+		private readonly globalStorage: LocalStorageService
+	) {
+		this.usageCounts = new Map(Object.entries(globalStorage.getAbbreviationUsageCounts()));
 		this.disposables.push(
 			autorunDisposable(() => {
 				// For the livetime of this component, cache the computed's
-				const _ = this.symbolsByAbbreviation;
-				// clear cache on change
-				this.cache = {};
-			})
+				const _ = this.table;
+				this.symbolsChangedEmitter.fire(this.symbolsByAbbreviation);
+			}),
+			this.abbreviationCompleted(({ symbols }) => this.recordUsage(symbols))
 		);
 	}
 
-	onAbbreviationsCompleted(editor : TextEditor) : void {
-		this.abbreviationCompletedEmitter.fire(editor);
+	onAbbreviationsCompleted(editor : TextEditor, symbols: string[]) : void {
+		this.abbreviationCompletedEmitter.fire({ editor, symbols });
+	}
+
+	/** Counts the completed `symbols`, which includes those of the abbreviations replaced in the infoview. */
+	recordUsage(symbols: string[]): void {
+		for (const symbol of symbols) {
+			this.usageCounts.set(symbol, this.getUsageCount(symbol) + 1);
+		}
+		this.globalStorage.setAbbreviationUsageCounts(Object.fromEntries(this.usageCounts));
+		// the best match of ambiguous abbreviations may have changed.
+		this.table.clearCache();
+		this.usageCountsChangedEmitter.fire();
+	}
+
+	/** How often the user completed an abbreviation to each symbol, across all workspaces. */
+	getUsageCounts(): { [symbol: string]: number } {
+		return Object.fromEntries(this.usageCounts);
+	}
+
+	/** How often the user completed an abbreviation to `symbol`, across all workspaces. */
+	getUsageCount(symbol: string): number {
+		return this.usageCounts.get(symbol) ?? 0;
 	}
 
+	resetUsageCounts(): void {
+		this.usageCounts.clear();
+		this.globalStorage.setAbbreviationUsageCounts({});
+		this.table.clearCache();
+		this.usageCountsChangedEmitter.fire();
+	}
+
+	/**
+	 * The abbreviations of the package of the active editor take precedence over the built-in ones,
+	 * and the user's `lean4.input.customTranslations` over both.
+	 */
 	@computed
 	get symbolsByAbbreviation(): SymbolsByAbbreviation {
 		// There are only like 1000 symbols. Building an index is not required yet.
 		return {
 			...abbreviations,
+			...this.projectAbbreviations.symbolsByAbbreviation,
 			...this.config.inputModeCustomTranslations.get(),
 		};
 	}
 
+	/** The abbreviations ranked by the usage counts, for the code that does not depend on VS Code. */
+	@computed
+	get table(): AbbreviationTable {
+		return new AbbreviationTable(this.symbolsByAbbreviation, (symbol) => this.getUsageCount(symbol));
+	}
+
 	getAllAbbreviations(symbol: string): string[] {
-		return Object.entries(this.symbolsByAbbreviation)
-			.filter(([abbr, sym]) => sym === symbol)
-			.map(([abbr]) => abbr);
+		return this.table.getAllAbbreviations(symbol);
+	}
+
+	/** See `AbbreviationTable.getCanonicalAbbreviation`. */
+	getCanonicalAbbreviation(symbol: string): string | undefined {
+		return this.table.getCanonicalAbbreviation(symbol);
 	}
 
 	findSymbolsIn(symbolPlusUnknown: string): string[] {
@@ -55,57 +114,28 @@ export class AbbreviationProvider implements Disposable {
 	}
 
 	/**
-	 * Computes the replacement text for a typed abbreviation (excl. leader).
-	 * This converts the longest non-empty prefix with the best-matching abbreviation.
-	 *
-	 * For example:
-	 *   getReplacementText("alp") returns "α"
-	 *   getReplacementText("alp7") returns "α7"
-	 *   getReplacementText("") returns undefined
+	 * Computes the replacement text for a typed abbreviation (excl. leader),
+	 * see `AbbreviationTable.getReplacementText`.
 	 */
 	getReplacementText(abbrev: string): string | undefined {
-		if (abbrev in this.cache) {
-			return this.cache[abbrev];
-		}
-		const result = this._getReplacementText(abbrev);
-		this.cache[abbrev] = result;
-		return result;
+		return this.table.getReplacementText(abbrev);
 	}
 
-	private _getReplacementText(abbrev: string): string | undefined {
-		if (abbrev.length === 0) {
-			return undefined;
-		}
-
-		const matchingSymbol = this.findSymbolsByAbbreviationPrefix(abbrev)[0];
-		if (matchingSymbol) {
-			return matchingSymbol;
-		}
-
-		// Convert the `alp` in `\alp7`
-		const prefixReplacement = this.getReplacementText(
-			abbrev.slice(0, abbrev.length - 1)
-		);
-		if (prefixReplacement) {
-			return prefixReplacement + abbrev.slice(abbrev.length - 1);
-		}
-
-		return undefined;
+	getSymbolForAbbreviation(abbrev: string): string | undefined {
+		return this.table.getSymbolForAbbreviation(abbrev);
 	}
 
-	getSymbolForAbbreviation(abbrev: string): string | undefined {
-		return this.symbolsByAbbreviation[abbrev];
+	/** Returns all abbreviations starting with `abbrevPrefix`, best match first, see `AbbreviationTable.findAbbreviationsByPrefix`. */
+	findAbbreviationsByPrefix(abbrevPrefix: string): string[] {
+		return this.table.findAbbreviationsByPrefix(abbrevPrefix);
 	}
 
+	/**
+	 * Returns the symbols of all abbreviations starting with `abbrevPrefix`, best match first,
+	 * see `AbbreviationTable.findSymbolsByAbbreviationPrefix`.
+	 */
 	findSymbolsByAbbreviationPrefix(abbrevPrefix: string): string[] {
-		const matchingAbbreviations = Object.keys(
-			this.symbolsByAbbreviation
-		).filter((abbrev) => abbrev.startsWith(abbrevPrefix));
-
-		matchingAbbreviations.sort((a, b) => a.length - b.length);
-		return matchingAbbreviations.map(
-			(abbr) => this.symbolsByAbbreviation[abbr]
-		);
+		return this.table.findSymbolsByAbbreviationPrefix(abbrevPrefix);
 	}
 
 	dispose(): void {
@@ -114,3 +144,9 @@ export class AbbreviationProvider implements Disposable {
 		}
 	}
 }
+
+export interface AbbreviationsCompleted {
+	editor: TextEditor;
+	/** The symbols which the abbreviations were replaced with. */
+	symbols: string[];
+}
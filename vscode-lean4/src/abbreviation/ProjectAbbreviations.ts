@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import { observable } from 'mobx';
+import { Disposable, Uri, window, workspace } from 'vscode';
+import { logger } from '../utils/logger';
+import { findLeanPackageRoot } from '../utils/projectInfo';
+import { SymbolsByAbbreviation } from './config';
+
+/**
+ * The name of the file in a Lean package root, next to `lean-toolchain`, with abbreviations for that package.
+ * It has the same format as `abbreviations.json` and `lean4.input.customTranslations`.
+ */
+export const projectAbbreviationsFileName = 'lean-abbreviations.json';
+
+async function readAbbreviationsFile(fileUri: Uri): Promise<SymbolsByAbbreviation> {
+	let contents: string;
+	try {
+		contents = await fs.promises.readFile(fileUri.fsPath, { encoding: 'utf-8' });
+	} catch {
+		// most packages do not have one.
+		return {};
+	}
+
+	const symbols: SymbolsByAbbreviation = {};
+	const errors: string[] = [];
+	try {
+		const json = JSON.parse(contents) as unknown;
+		if (!(json instanceof Object) || Array.isArray(json)) {
+			errors.push('expected a JSON object');
+		} else {
+			for (const [abbr, symbol] of Object.entries(json as { [abbr: string]: unknown })) {
+				if (typeof symbol === 'string') {
+					symbols[abbr] = symbol;
+				} else {
+					errors.push(`invalid abbreviation '${abbr}'`);
+				}
+			}
+		}
+	} catch (e) {
+		errors.push(`${e}`);
+	}
+	if (errors.length > 0) {
+		logger.log(`[ProjectAbbreviations] problems in ${fileUri.fsPath}: ${errors.join(', ')}`);
+		void window.showWarningMessage(`Ignoring ${errors.join(', ')} in ${fileUri.fsPath}.`);
+	}
+	return symbols;
+}
+
+/**
+ * Loads the abbreviations of the Lean package of the active editor from its `projectAbbreviationsFileName`,
+ * and reloads them whenever that file changes.
+ */
+export class ProjectAbbreviations implements Disposable {
+	private readonly disposables = new Array<Disposable>();
+	/** The root of the package whose abbreviations are loaded. */
+	private packageUri: Uri | undefined;
+
+	@observable.ref
+	symbolsByAbbreviation: SymbolsByAbbreviation = {};
+
+	constructor() {
+		const watcher = workspace.createFileSystemWatcher(`**/${projectAbbreviationsFileName}`);
+		const onFileChanged = (uri: Uri) => {
+			if (this.packageUri && uri.toString() === this.fileUri(this.packageUri).toString()) {
+				void this.load();
+			}
+		};
+		watcher.onDidChange(onFileChanged);
+		watcher.onDidCreate(onFileChanged);
+		watcher.onDidDelete(onFileChanged);
+
+		this.disposables.push(
+			watcher,
+			window.onDidChangeActiveTextEditor((e) => this.updatePackage(e?.document.uri))
+		);
+		void this.updatePackage(window.activeTextEditor?.document.uri);
+	}
+
+	private fileUri(packageUri: Uri): Uri {
+		return Uri.joinPath(packageUri, projectAbbreviationsFileName);
+	}
+
+	private async updatePackage(uri: Uri | undefined): Promise<void> {
+		// Keep the abbreviations when focusing e.g. an output channel.
+		if (!uri || uri.scheme !== 'file') {
+			return;
+		}
+		const [_, packageUri] = await findLeanPackageRoot(uri);
+		if (packageUri?.toString() === this.packageUri?.toString()) {
+			return;
+		}
+		this.packageUri = packageUri ?? undefined;
+		await this.load();
+	}
+
+	private async load(): Promise<void> {
+		const packageUri = this.packageUri;
+		const symbols = packageUri ? await readAbbreviationsFile(this.fileUri(packageUri)) : {};
+		// another package may have become active in the meantime.
+		if (packageUri === this.packageUri) {
+			if (packageUri) {
+				logger.log(`[ProjectAbbreviations] loaded ${Object.keys(symbols).length} abbreviations of ${packageUri.fsPath}`);
+			}
+			this.symbolsByAbbreviation = symbols;
+		}
+	}
+
+	dispose(): void {
+		for (const d of this.disposables) {
+			d.dispose();
+		}
+	}
+}
@@ -1,3 +1,4 @@
+import { SymbolsByAbbreviation } from '@leanprover/infoview-api';
 import { serializerWithDefault, VsCodeSetting } from '../utils/VsCodeSetting';
 
 /**
@@ -29,8 +30,13 @@ export class AbbreviationConfig {
 			serializer: serializerWithDefault(true),
 		}
 	);
-}
 
-export interface SymbolsByAbbreviation {
-	[abbrev: string]: string;
+	readonly completionsEnabled = new VsCodeSetting(
+		'lean4.input.completionsEnabled',
+		{
+			serializer: serializerWithDefault(true),
+		}
+	);
 }
+
+export { SymbolsByAbbreviation };
@@ -1,28 +1,49 @@
-import { Disposable, languages } from 'vscode';
+import { commands, Disposable, languages, window } from 'vscode';
 import { autorunDisposable } from '../utils/autorunDisposable';
+import { LocalStorageService } from '../utils/localStorage';
+import { AbbreviationCompletionProvider } from './AbbreviationCompletionProvider';
+import { AbbreviationConverterFeature } from './AbbreviationConverter';
 import { AbbreviationHoverProvider } from './AbbreviationHoverProvider';
 import { AbbreviationProvider } from './AbbreviationProvider';
 import { AbbreviationRewriterFeature } from './rewriter/AbbreviationRewriterFeature';
 import { AbbreviationConfig } from './config';
+import { ProjectAbbreviations } from './ProjectAbbreviations';
 
 export class AbbreviationFeature {
 	private readonly disposables = new Array<Disposable>();
 	readonly abbreviations : AbbreviationProvider;
 
-	constructor() {
+	/** @param globalStorage where the usage statistics of the abbreviations are kept across workspaces. */
+	constructor(globalStorage: LocalStorageService) {
 		const config = new AbbreviationConfig();
-		this.abbreviations = new AbbreviationProvider(config);
+		const projectAbbreviations = new ProjectAbbreviations();
+		this.abbreviations = new AbbreviationProvider(config, projectAbbreviations, globalStorage);
+
+		const rewriters = new AbbreviationRewriterFeature(config, this.abbreviations);
+		const completionProvider = new AbbreviationCompletionProvider(config, this.abbreviations, rewriters);
 
 		this.disposables.push(
+			projectAbbreviations,
 			autorunDisposable((disposables) => {
 				disposables.push(
 					languages.registerHoverProvider(
 						config.languages.get(),
 						new AbbreviationHoverProvider(config, this.abbreviations)
+					),
+					languages.registerCompletionItemProvider(
+						config.languages.get(),
+						completionProvider,
+						config.abbreviationCharacter.get()
 					)
 				);
 			}),
-			new AbbreviationRewriterFeature(config, this.abbreviations)
+			rewriters,
+			completionProvider,
+			new AbbreviationConverterFeature(config, this.abbreviations),
+			commands.registerCommand('lean4.input.resetAbbreviationStatistics', () => {
+				this.abbreviations.resetUsageCounts();
+				void window.showInformationMessage('The usage statistics of the abbreviations have been reset.');
+			})
 		);
 	}
 
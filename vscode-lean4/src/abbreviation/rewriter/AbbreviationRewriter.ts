@@ -1,5 +1,5 @@
 import { Range as LineColRange } from 'vscode';
-import { commands, Disposable, TextEditor, window, workspace, Selection, OutputChannel, TextDocument } from 'vscode';
+import { commands, Disposable, Position, TextEditor, window, workspace, Selection, OutputChannel, TextDocument } from 'vscode';
 import { assert } from '../../utils/assert';
 import { AbbreviationProvider } from '../AbbreviationProvider';
 import { AbbreviationConfig } from '../config';
@@ -89,6 +89,26 @@ export class AbbreviationRewriter {
 		);
 	}
 
+	/**
+	 * Returns the abbreviation which is tracked at `position`, e.g. because it is being typed there,
+	 * with its range including the leader.
+	 */
+	getTrackedAbbreviationAt(
+		position: Position
+	): { abbreviation: string; range: LineColRange } | undefined {
+		const document = this.textEditor.document;
+		const offset = new Range(document.offsetAt(position), 0);
+		for (const abbr of this.trackedAbbreviations) {
+			if (abbr.range.containsRange(offset)) {
+				return {
+					abbreviation: abbr.abbreviation,
+					range: toVsCodeRange(abbr.range, document),
+				};
+			}
+		}
+		return undefined;
+	}
+
 	private writeError(e: string) {
 		this.stderrOutput  = this.stderrOutput || window.createOutputChannel('Lean: Editor');
 		this.stderrOutput.appendLine(e);
@@ -117,9 +137,11 @@ export class AbbreviationRewriter {
 			newText: string;
 			transformOffsetInRange: (offset: number) => number;
 		}>();
+		const completedSymbols = new Array<string>();
 		for (const abbr of abbreviations) {
 			const symbol = abbr.matchingSymbol;
 			if (symbol) {
+				completedSymbols.push(symbol);
 				const newText = symbol.replace(cursorVar, '');
 				let cursorOffset = symbol.indexOf(cursorVar);
 				if (cursorOffset === -1) {
@@ -188,7 +210,7 @@ export class AbbreviationRewriter {
 				return new Selection(vr.start, vr.end);
 			});
 
-			this.abbreviationProvider.onAbbreviationsCompleted(this.textEditor);
+			this.abbreviationProvider.onAbbreviationsCompleted(this.textEditor, completedSymbols);
 		}
 		else {
 			// Our edit did not succeed, do not update the selections.
@@ -15,6 +15,9 @@ export class AbbreviationRewriterFeature {
 	@observable
 	private activeTextEditor: TextEditor | undefined;
 
+	/** The rewriter of the active editor, if it has one. */
+	activeRewriter: AbbreviationRewriter | undefined;
+
 	constructor(
 		private readonly config: AbbreviationConfig,
 		abbreviationProvider: AbbreviationProvider
@@ -26,17 +29,17 @@ export class AbbreviationRewriterFeature {
 				this.activeTextEditor = e;
 			}),
 			autorunDisposable((disposables) => {
+				this.activeRewriter = undefined;
 				if (this.activeTextEditor && this.shouldEnableRewriterForEditor(this.activeTextEditor)) {
 					// This creates an abbreviation rewriter for the active text editor.
 					// Old rewriters are disposed automatically.
 					// This is also updated when this feature is turned off/on.
-					disposables.push(
-						new AbbreviationRewriter(
-							config,
-							abbreviationProvider,
-							this.activeTextEditor
-						)
+					this.activeRewriter = new AbbreviationRewriter(
+						config,
+						abbreviationProvider,
+						this.activeTextEditor
 					);
+					disposables.push(this.activeRewriter);
 				}
 			})
 		);
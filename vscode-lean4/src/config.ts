@@ -2,6 +2,7 @@ import { workspace } from 'vscode'
 import * as path from 'path';
 import * as fs from 'fs'
 import { logger } from './utils/logger'
+import { extendEnv } from './utils/envPath'
 
 // TODO: does currently not contain config options for `./abbreviation`
 // so that it is easy to keep it in sync with vscode-lean.
@@ -33,14 +34,10 @@ function joinEnvPath(value: string[]) : string {
 // Make a copy of the passed process environment that includes the user's
 // `lean4.serverEnvPaths` in the path key, and adds the key/value pairs from
 // `lean4.serverEnv`. Both of these settings can be found in the user's
-// settings.json file
-export function addServerEnvPaths(input_env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
-    const env = Object.assign({}, input_env, serverEnv());
-    const paths = serverEnvPaths()
-    if (paths.length !== 0) {
-        setEnvPath(joinEnvPath(paths) + path.delimiter + getEnvPath())
-    }
-    return env
+// settings.json file, a Lean package can override them, see `projectServerEnv`.
+export function addServerEnvPaths(input_env: NodeJS.ProcessEnv, envVars: object = serverEnv(),
+        paths: string[] = serverEnvPaths()): NodeJS.ProcessEnv {
+    return extendEnv(input_env, envVars, paths)
 }
 
 export function getDefaultElanPath() : string {
@@ -162,6 +159,34 @@ export function serverLoggingPath(): string {
     return workspace.getConfiguration('lean4.serverLogging').get('path', '.')
 }
 
+export function serverAutoRestartEnabled(): boolean {
+    return workspace.getConfiguration('lean4.serverAutoRestart').get('enabled', false)
+}
+
+export function serverAutoRestartMaxRestarts(): number {
+    return workspace.getConfiguration('lean4.serverAutoRestart').get('maxRestarts', 5)
+}
+
+/** The time window (in seconds) in which `serverAutoRestartMaxRestarts()` crashes are tolerated. */
+export function serverAutoRestartWindow(): number {
+    return workspace.getConfiguration('lean4.serverAutoRestart').get('window', 300)
+}
+
+/** The interval (in seconds) in which the memory and CPU usage of the Lean server processes is sampled. */
+export function resourceMonitorInterval(): number {
+    return workspace.getConfiguration('lean4.resourceMonitor').get('interval', 5)
+}
+
+/** The memory usage (in MB) of a Lean server and its workers above which a warning is shown, or 0 for no warning. */
+export function resourceMonitorMemoryWarningThreshold(): number {
+    return workspace.getConfiguration('lean4.resourceMonitor').get('memoryWarningThreshold', 0)
+}
+
+/** The time (in seconds) after which the worker of a file that is not visible in any editor is closed, or 0 to keep it. */
+export function idleWorkerTimeout(): number {
+    return workspace.getConfiguration('lean4').get('idleWorkerTimeout', 0)
+}
+
 export function shouldAutofocusOutput(): boolean {
     return workspace.getConfiguration('lean4').get('autofocusOutput', false)
 }
@@ -182,6 +207,30 @@ export function getInfoViewAllErrorsOnLine(): boolean {
     return workspace.getConfiguration('lean4').get('infoViewAllErrorsOnLine', true);
 }
 
+export function getShowGoalsInHover(): boolean {
+    return workspace.getConfiguration('lean4').get('showGoalsInHover', false);
+}
+
+export function getShowGoalCountDecorations(): boolean {
+    return workspace.getConfiguration('lean4').get('showGoalCountDecorations', false);
+}
+
+export function getInfoViewReverseTacticState(): boolean {
+    return workspace.getConfiguration('lean4').get('infoViewReverseTacticState', false);
+}
+
+export function getInfoViewHideTypeAssumptions(): boolean {
+    return workspace.getConfiguration('lean4').get('infoViewHideTypeAssumptions', false);
+}
+
+export function getInfoViewHideInstanceAssumptions(): boolean {
+    return workspace.getConfiguration('lean4').get('infoViewHideInstanceAssumptions', false);
+}
+
+export function getInfoViewHideInaccessibleAssumptions(): boolean {
+    return workspace.getConfiguration('lean4').get('infoViewHideInaccessibleAssumptions', false);
+}
+
 export function getElaborationDelay(): number {
     return workspace.getConfiguration('lean4').get('elaborationDelay', 200);
 }
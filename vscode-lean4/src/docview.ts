@@ -7,7 +7,8 @@ import { commands, Disposable, Uri, ViewColumn, WebviewPanel, window, ColorTheme
      Range, Position } from 'vscode';
 import { join, extname } from 'path';
 import { TempFolder } from './utils/tempFolder'
-import { SymbolsByAbbreviation, AbbreviationConfig } from './abbreviation/config'
+import { AbbreviationConfig } from './abbreviation/config'
+import { AbbreviationProvider } from './abbreviation/AbbreviationProvider'
 import { fileExists } from './utils/fsHelper';
 
 export function mkCommandUri(commandName: string, ...args: any[]): string {
@@ -48,7 +49,7 @@ export class DocViewProvider implements Disposable {
     private backStack: string[] = [];
     private forwardStack: string[] = [];
     private tempFolder : TempFolder;
-    private abbreviations: SymbolsByAbbreviation;
+    private abbreviations: AbbreviationProvider;
     private extensionUri: Uri;
     private tryItDoc: TextDocument | null = null;
     private html: string = '';
@@ -78,7 +79,7 @@ export class DocViewProvider implements Disposable {
         return this.tempFolder;
     }
 
-    setAbbreviations(abbrev: SymbolsByAbbreviation) : void{
+    setAbbreviations(abbrev: AbbreviationProvider) : void{
         this.abbreviations = abbrev;
     }
 
@@ -158,7 +159,8 @@ export class DocViewProvider implements Disposable {
             const leader = ac.abbreviationCharacter.get();
             const $ = cheerio.load('<table style="font-family:var(--vscode-editor-font-family);font-size:var(--vscode-editor-font-size:);"><tr><th style="text-align:left">Abbreviation</th><th style="text-align:left">Unicode Symbol</th></tr></table>');
             const table = $('table');
-            for (const [abbr, sym] of Object.entries(this.abbreviations)) {
+            // the abbreviations of the current package and the settings may have changed since the start.
+            for (const [abbr, sym] of Object.entries(this.abbreviations.symbolsByAbbreviation)) {
                 if (sym && sym.indexOf('CURSOR') < 0) {
                     const row = table.append($('<tr>'));
                     row.append($('<td>').text(leader + abbr));
@@ -1,8 +1,14 @@
-import { window, Uri, workspace, ExtensionContext, TextDocument } from 'vscode'
+import { window, Uri, workspace, ExtensionContext, TextDocument, languages } from 'vscode'
 import { AbbreviationFeature } from './abbreviation'
 import { InfoProvider } from './infoview'
 import { DocViewProvider } from './docview';
 import { LeanTaskGutter } from './taskgutter'
+import { FilesViewProvider } from './filesview'
+import { LeanStatusBar } from './statusbar'
+import { ResourcesViewProvider } from './resourcesview'
+import { SessionRecorder } from './sessionRecorder'
+import { GoalHoverProvider } from './goalHover'
+import { GoalCountDecorations } from './goalDecorations'
 import { LocalStorageService} from './utils/localStorage'
 import { LeanInstaller } from './utils/leanInstaller'
 import { LeanpkgService } from './utils/leanpkg';
@@ -99,22 +105,32 @@ export async function activate(context: ExtensionContext): Promise<Exports> {
     const leanClientProvider = new LeanClientProvider(storageManager, installer, pkgService, outputChannel);
     context.subscriptions.push(leanClientProvider)
 
-    const info = new InfoProvider(leanClientProvider, {language: 'lean4'}, context);
-    context.subscriptions.push(info)
-
-    const abbrev = new AbbreviationFeature();
+    const abbrev = new AbbreviationFeature(new LocalStorageService(context.globalState));
     context.subscriptions.push(abbrev);
 
+    // the infoview replaces the abbreviations typed into its text inputs.
+    const info = new InfoProvider(leanClientProvider, {language: 'lean4'}, context, abbrev.abbreviations);
+    context.subscriptions.push(info)
+
     const docView = new DocViewProvider(context.extensionUri);
     context.subscriptions.push(docView);
 
     // pass the abbreviations through to the docView so it can show them on demand.
-    docView.setAbbreviations(abbrev.abbreviations.symbolsByAbbreviation);
+    docView.setAbbreviations(abbrev.abbreviations);
 
     context.subscriptions.push(new LeanTaskGutter(leanClientProvider, context))
 
+    context.subscriptions.push(new FilesViewProvider(leanClientProvider))
+
+    context.subscriptions.push(new LeanStatusBar(leanClientProvider, outputChannel))
+    context.subscriptions.push(new ResourcesViewProvider(leanClientProvider))
+
+    context.subscriptions.push(new SessionRecorder(leanClientProvider))
+
+    context.subscriptions.push(languages.registerHoverProvider({ language: 'lean4' }, new GoalHoverProvider(leanClientProvider)))
+    context.subscriptions.push(new GoalCountDecorations(leanClientProvider))
+
     pkgService.versionChanged((uri) => installer.handleVersionChanged(uri));
-    pkgService.lakeFileChanged((uri) => installer.handleLakeFileChanged(uri));
 
     return { isLean4Project: true, version: '4',
         infoProvider: info, clientProvider: leanClientProvider, installer, docView};
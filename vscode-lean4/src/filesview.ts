@@ -0,0 +1,187 @@
+import { commands, Disposable, EventEmitter, ThemeIcon, TreeDataProvider, TreeItem,
+    TreeItemCollapsibleState, Uri, window, workspace } from 'vscode';
+import { LeanFileProgressKind, LeanFileProgressProcessingInfo } from '@leanprover/infoview-api';
+import { LeanClient } from './leanclient';
+import { LeanClientProvider } from './utils/clientProvider';
+import { p2cConverter } from './utils/converters';
+import { basename } from 'path';
+
+type FileState = 'waiting' | 'processing' | 'done' | 'crashed' | 'stopped' | 'closed';
+
+type FilesViewNode =
+    { kind: 'folder', client: LeanClient } |
+    { kind: 'file', client: LeanClient, uri: string };
+
+/** Lists the files of every LeanClient grouped by project folder, together with the state of their worker. */
+export class FilesViewProvider implements TreeDataProvider<FilesViewNode>, Disposable {
+    private subscriptions: Disposable[] = [];
+    private clientSubscriptions: Map<LeanClient, Disposable[]> = new Map();
+    // The key is the uri of the file, the value is the latest progress the server reported for it.
+    private progress: Map<string, LeanFileProgressProcessingInfo[]> = new Map();
+    private refreshTimeout?: NodeJS.Timeout;
+
+    private treeDataChangedEmitter = new EventEmitter<FilesViewNode | undefined>();
+    onDidChangeTreeData = this.treeDataChangedEmitter.event;
+
+    constructor(private clientProvider: LeanClientProvider) {
+        for (const client of clientProvider.getClients()) {
+            this.onClientAdded(client);
+        }
+
+        this.subscriptions.push(
+            clientProvider.clientAdded(client => this.onClientAdded(client)),
+            clientProvider.clientRemoved(client => this.onClientRemoved(client)),
+            window.registerTreeDataProvider('lean4.filesView', this),
+            commands.registerCommand('lean4.filesView.restartFile', (node: FilesViewNode) => this.restartFile(node)),
+            commands.registerCommand('lean4.filesView.revealFile', (node: FilesViewNode) => this.revealFile(node)),
+        );
+    }
+
+    private onClientAdded(client: LeanClient) {
+        for (const [uri, processing] of client.progress) {
+            // the same keys as those of `progressChanged`.
+            this.progress.set(p2cConverter.asUri(uri).toString(), processing);
+        }
+        this.clientSubscriptions.set(client, [
+            client.progressChanged(([uri, processing]) => {
+                this.progress.set(uri, processing);
+                this.scheduleRefresh();
+            }),
+            client.closedWorker(uri => {
+                this.progress.delete(uri);
+                this.scheduleRefresh();
+            }),
+            client.restartedWorker(uri => {
+                this.progress.delete(uri);
+                this.scheduleRefresh();
+            }),
+            client.restarted(() => {
+                for (const doc of client.getOpenDocuments()) {
+                    this.progress.delete(doc.uri.toString());
+                }
+                this.scheduleRefresh();
+            }),
+            client.stopped(() => this.scheduleRefresh()),
+            client.didSetLanguage(() => this.scheduleRefresh()),
+            client.didClose(params => {
+                this.progress.delete(params.textDocument.uri);
+                this.scheduleRefresh();
+            }),
+        ]);
+        this.scheduleRefresh();
+    }
+
+    private onClientRemoved(client: LeanClient) {
+        this.clientSubscriptions.get(client)?.forEach(s => s.dispose());
+        this.clientSubscriptions.delete(client);
+        this.scheduleRefresh();
+    }
+
+    /** Progress notifications can arrive very frequently, so we batch the updates of the tree. */
+    private scheduleRefresh() {
+        if (this.refreshTimeout !== undefined) return;
+        this.refreshTimeout = setTimeout(() => {
+            this.refreshTimeout = undefined;
+            this.treeDataChangedEmitter.fire(undefined);
+        }, 200);
+    }
+
+    private getFileState(client: LeanClient, uri: string): FileState {
+        if (!client.isRunning()) return 'stopped';
+        if (client.isWorkerClosed(uri)) return 'closed';
+        const processing = this.progress.get(uri);
+        if (processing === undefined) return 'waiting';
+        if (processing.some(info => info.kind === LeanFileProgressKind.FatalError)) return 'crashed';
+        if (processing.length > 0) return 'processing';
+        return 'done';
+    }
+
+    /** Returns the percentage of lines that the server still has to process. */
+    private getRemainingPercentage(client: LeanClient, uri: string): number | undefined {
+        const doc = client.getOpenDocuments().find(d => d.uri.toString() === uri);
+        const processing = this.progress.get(uri);
+        if (!doc || !processing || doc.lineCount === 0) return undefined;
+        let lines = 0;
+        for (const info of processing) {
+            lines += info.range.end.line - info.range.start.line + 1;
+        }
+        return Math.round(100 * Math.min(lines, doc.lineCount) / doc.lineCount);
+    }
+
+    getTreeItem(node: FilesViewNode): TreeItem {
+        if (node.kind === 'folder') {
+            const folder = Uri.parse(node.client.getWorkspaceFolder());
+            const item = new TreeItem(folder.scheme === 'untitled' ? 'Untitled' : basename(folder.fsPath),
+                TreeItemCollapsibleState.Expanded);
+            item.description = node.client.isRunning() ? 'running' : 'stopped';
+            item.tooltip = folder.scheme === 'untitled' ? 'Untitled files' : folder.fsPath;
+            item.iconPath = new ThemeIcon('folder');
+            item.contextValue = 'leanFolder';
+            return item;
+        }
+
+        const uri = Uri.parse(node.uri);
+        const item = new TreeItem(uri, TreeItemCollapsibleState.None);
+        const state = this.getFileState(node.client, node.uri);
+        if (state === 'processing') {
+            const remaining = this.getRemainingPercentage(node.client, node.uri);
+            item.description = remaining === undefined ? 'processing' : `processing (${remaining}% of lines remaining)`;
+            item.iconPath = new ThemeIcon('sync~spin');
+        } else if (state === 'done') {
+            item.description = 'done';
+            item.iconPath = new ThemeIcon('check');
+        } else if (state === 'crashed') {
+            item.description = 'processing stopped';
+            item.iconPath = new ThemeIcon('error');
+        } else if (state === 'closed') {
+            item.description = 'worker closed';
+            item.iconPath = new ThemeIcon('circle-slash');
+        } else if (state === 'stopped') {
+            item.description = 'server stopped';
+            item.iconPath = new ThemeIcon('debug-stop');
+        } else {
+            item.description = 'waiting for server';
+            item.iconPath = new ThemeIcon('clock');
+        }
+        item.contextValue = 'leanFile';
+        item.command = { command: 'lean4.filesView.revealFile', title: 'Reveal File', arguments: [node] };
+        return item;
+    }
+
+    getChildren(node?: FilesViewNode): FilesViewNode[] {
+        if (!node) {
+            return this.clientProvider.getClients().map(client => ({ kind: 'folder', client }));
+        }
+        if (node.kind === 'file') return [];
+
+        const uris = new Set<string>(node.client.getOpenDocuments().map(doc => doc.uri.toString()));
+        for (const uri of this.progress.keys()) {
+            if (this.clientProvider.findClient(uri) === node.client) uris.add(uri);
+        }
+        return Array.from(uris.values())
+            .sort()
+            .map(uri => ({ kind: 'file', client: node.client, uri }));
+    }
+
+    private async restartFile(node: FilesViewNode) {
+        if (node?.kind !== 'file') return;
+        const doc = node.client.getOpenDocuments().find(d => d.uri.toString() === node.uri);
+        if (doc) {
+            await node.client.restartFile(doc);
+        }
+    }
+
+    private async revealFile(node: FilesViewNode) {
+        if (node?.kind !== 'file') return;
+        const doc = await workspace.openTextDocument(Uri.parse(node.uri));
+        await window.showTextDocument(doc, { preserveFocus: false });
+    }
+
+    dispose(): void {
+        if (this.refreshTimeout !== undefined) clearTimeout(this.refreshTimeout);
+        for (const subscriptions of this.clientSubscriptions.values()) {
+            for (const s of subscriptions) s.dispose();
+        }
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
@@ -0,0 +1,140 @@
+import { DecorationOptions, Disposable, Position, Range, TextEditor, ThemeColor, window, workspace } from 'vscode';
+import { LeanFileProgressProcessingInfo } from '@leanprover/infoview-api';
+import { getShowGoalCountDecorations } from './config';
+import { LeanClientProvider } from './utils/clientProvider';
+import { requestPlainGoal, tacticsInLines } from './utils/plainGoal';
+
+/**
+ * Shows the number of goals after each tactic in the visible part of Lean files at the end of its line,
+ * so that the structure of a proof is visible without moving the cursor.
+ */
+export class GoalCountDecorations implements Disposable {
+    private decoration = window.createTextEditorDecorationType({
+        after: {
+            margin: '0 0 0 3em',
+            color: new ThemeColor('editorCodeLens.foreground'),
+        },
+    });
+    private subscriptions: Disposable[] = [];
+    /** The text shown after each line by uri, `undefined` for lines without goals. */
+    private texts: Map<string, Map<number, string | undefined>> = new Map();
+    /** The latest progress the server reported for each uri, the goals below it are not known yet. */
+    private progress: Map<string, LeanFileProgressProcessingInfo[]> = new Map();
+    private timeout?: NodeJS.Timeout;
+    /** Incremented on every update, so that an update stops when a newer one starts. */
+    private generation = 0;
+    private readonly updateDelayMs = 500;
+    /** The number of `$/lean/plainGoal` requests that are sent at the same time. */
+    private readonly maxConcurrentRequests = 8;
+
+    constructor(private clientProvider: LeanClientProvider) {
+        this.subscriptions.push(
+            window.onDidChangeVisibleTextEditors(() => this.schedule()),
+            window.onDidChangeTextEditorVisibleRanges(() => this.schedule()),
+            workspace.onDidChangeTextDocument(e => this.invalidate(e.document.uri.toString())),
+            clientProvider.progressChanged(([uri, processing]) => {
+                this.progress.set(uri, processing);
+                this.invalidate(uri);
+            }),
+            workspace.onDidCloseTextDocument(doc => this.progress.delete(doc.uri.toString())),
+            workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('lean4.showGoalCountDecorations')) this.schedule();
+            }),
+        );
+        this.schedule();
+    }
+
+    private invalidate(uri: string) {
+        if (!this.texts.has(uri)) return;
+        this.texts.delete(uri);
+        this.schedule();
+    }
+
+    private schedule() {
+        // throttled, since the progress changes all the time while a file is processed.
+        if (this.timeout !== undefined) return;
+        this.timeout = setTimeout(() => {
+            this.timeout = undefined;
+            void this.update();
+        }, this.updateDelayMs);
+    }
+
+    private async update() {
+        const generation = ++this.generation;
+        const enabled = getShowGoalCountDecorations();
+        for (const editor of window.visibleTextEditors) {
+            if (editor.document.languageId !== 'lean4') continue;
+            if (!enabled) {
+                editor.setDecorations(this.decoration, []);
+                continue;
+            }
+            await this.updateEditor(editor, generation);
+            if (generation !== this.generation) return;
+        }
+        if (!enabled) this.texts.clear();
+    }
+
+    private async updateEditor(editor: TextEditor, generation: number) {
+        const document = editor.document;
+        const uri = document.uri.toString();
+        const client = this.clientProvider.findClient(uri);
+        if (!client) return;
+        const version = document.version;
+
+        const texts = this.texts.get(uri) ?? new Map<number, string | undefined>();
+        this.texts.set(uri, texts);
+        // the lines that are still being processed are left out, they are updated once the progress changes.
+        const processing = this.progress.get(uri) ?? [];
+        const processedLines = Math.min(document.lineCount, ...processing.map(info => info.range.start.line));
+        // the goals of a line are those after the last tactic that ends on it.
+        const tacticEnds = new Map<number, Position>();
+        for (const range of editor.visibleRanges) {
+            const endLine = Math.min(range.end.line, processedLines - 1);
+            if (endLine < range.start.line) continue;
+            for (const tactic of tacticsInLines(document, range.start.line, endLine)) {
+                tacticEnds.set(tactic.end.line, tactic.end);
+            }
+        }
+        const pending: number[] = [];
+        for (const range of editor.visibleRanges) {
+            for (let line = range.start.line; line <= range.end.line && line < processedLines; line++) {
+                if (texts.has(line) || pending.includes(line)) continue;
+                if (tacticEnds.has(line)) pending.push(line);
+                else texts.set(line, undefined);
+            }
+        }
+
+        // the lines may have moved in the meantime.
+        const isStale = () => generation !== this.generation || document.version !== version || this.texts.get(uri) !== texts;
+        const requestGoals = async () => {
+            for (let line = pending.shift(); line !== undefined && !isStale(); line = pending.shift()) {
+                const end = tacticEnds.get(line);
+                const goal = end && await requestPlainGoal(client, document, end);
+                if (isStale()) return;
+                let text: string | undefined;
+                if (goal) {
+                    const n = goal.goals.length;
+                    text = n === 0 ? '✓ goals accomplished' : n === 1 ? '1 goal' : `${n} goals`;
+                }
+                texts.set(line, text);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(this.maxConcurrentRequests, pending.length) }, requestGoals));
+        if (isStale()) return;
+
+        const decorations: DecorationOptions[] = [];
+        for (const [line, text] of texts) {
+            if (text === undefined || line >= document.lineCount) continue;
+            const end = document.lineAt(line).range.end;
+            decorations.push({ range: new Range(end, end), renderOptions: { after: { contentText: text } } });
+        }
+        editor.setDecorations(this.decoration, decorations);
+    }
+
+    dispose(): void {
+        if (this.timeout !== undefined) clearTimeout(this.timeout);
+        this.generation++;
+        this.decoration.dispose();
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
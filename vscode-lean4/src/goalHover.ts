@@ -0,0 +1,37 @@
+import { CancellationToken, Hover, HoverProvider, MarkdownString, Position, TextDocument } from 'vscode';
+import { PlainGoal } from '@leanprover/infoview-api';
+import { getShowGoalsInHover } from './config';
+import { LeanClientProvider } from './utils/clientProvider';
+import { requestPlainGoal, tacticsInLines } from './utils/plainGoal';
+
+function renderGoals(goal: PlainGoal): string {
+    return goal.goals.length === 0 ? 'Goals accomplished 🎉' : goal.rendered;
+}
+
+/**
+ * Shows the goals before and after the tactic under the mouse,
+ * for those who do not want to keep the infoview open.
+ */
+export class GoalHoverProvider implements HoverProvider {
+    constructor(private clientProvider: LeanClientProvider) {}
+
+    async provideHover(document: TextDocument, pos: Position, token: CancellationToken): Promise<Hover | undefined> {
+        if (!getShowGoalsInHover()) return undefined;
+        const client = this.clientProvider.findClient(document.uri.toString());
+        if (!client) return undefined;
+
+        const tactic = tacticsInLines(document, pos.line, pos.line).find(range => range.contains(pos));
+        if (!tactic) return undefined;
+
+        const [before, after] = await Promise.all([
+            requestPlainGoal(client, document, tactic.start, token),
+            requestPlainGoal(client, document, tactic.end, token),
+        ]);
+        // there are no goals outside of tactic blocks.
+        if (token.isCancellationRequested || !before || !after) return undefined;
+
+        const contents = new MarkdownString();
+        contents.appendMarkdown(`**Goals before:**\n\n${renderGoals(before)}\n\n**Goals after:**\n\n${renderGoals(after)}`);
+        return new Hover(contents, tactic);
+    }
+}
@@ -2,19 +2,24 @@ import { join } from 'path';
 import {
     commands, Disposable, DocumentSelector,
     ExtensionContext, languages, Range,
-    Selection, TextEditor, TextEditorRevealType,
+    Selection, TextDocumentContentChangeEvent, TextEditor, TextEditorRevealType,
     Uri, ViewColumn, WebviewPanel, window, workspace, env, Position,
 } from 'vscode';
-import { EditorApi, InfoviewApi, LeanFileProgressParams, TextInsertKind,
+import { EditorApi, InfoviewApi, LeanFileProgressParams, TextInsertKind, UserWidgetInstance,
     RpcConnectParams, RpcConnected, RpcKeepAliveParams, ServerStoppedReason } from '@leanprover/infoview-api';
 import { LeanClient } from './leanclient';
 import { getEditorLineHeight, getInfoViewAllErrorsOnLine, getInfoViewAutoOpen, getInfoViewAutoOpenShowGoal,
-    getInfoViewStyle, minIfProd, prodOrDev } from './config';
+    getInfoViewHideInaccessibleAssumptions, getInfoViewHideInstanceAssumptions, getInfoViewHideTypeAssumptions,
+    getInfoViewReverseTacticState, getInfoViewStyle, minIfProd, prodOrDev } from './config';
 import { Rpc } from './rpc';
 import { LeanClientProvider } from './utils/clientProvider'
 import * as ls from 'vscode-languageserver-protocol'
 import { c2pConverter, p2cConverter } from './utils/converters';
+import { tacticsInLines } from './utils/plainGoal';
 import { logger } from './utils/logger'
+import { LocalStorageService } from './utils/localStorage'
+import { AbbreviationProvider } from './abbreviation/AbbreviationProvider'
+import { AbbreviationConfig } from './abbreviation/config'
 
 const keepAlivePeriodMs = 10000
 
@@ -47,15 +52,53 @@ class RpcSessionAtPos implements Disposable {
     }
 }
 
+/** Moves `pos` along with the edit `change`, to the start of the edit if it replaced the position. */
+function shiftPosition(pos: Position, change: TextDocumentContentChangeEvent): Position {
+    const { start, end } = change.range;
+    if (pos.isBefore(end)) return pos.isAfter(start) ? start : pos;
+    const lines = change.text.split('\n');
+    const line = start.line + lines.length - 1;
+    const character = (lines.length === 1 ? start.character : 0) + lines[lines.length - 1].length;
+    return pos.line === end.line ?
+        new Position(line, character + pos.character - end.character) :
+        pos.translate(line - end.line);
+}
+
+type InfoviewWebviewPanel = WebviewPanel & {rpc: Rpc, api: InfoviewApi};
+
+/** A panel showing a single user widget popped out of the infoview, see `EditorApi.popOutWidget`. */
+interface WidgetPanel {
+    webviewPanel: InfoviewWebviewPanel;
+    uri: string;
+    /** The position of the widget, which follows the edits of the document. */
+    pos: Position;
+    widget: UserWidgetInstance;
+    /** The RPC sessions of the panel, which are closed together with it. */
+    rpcSessions: Map<string, RpcSessionAtPos>;
+    /** How often the panel subscribed to each notification, released when it is closed without unsubscribing. */
+    serverNotifSubscriptions: Map<string, number>;
+    clientNotifSubscriptions: Map<string, number>;
+}
+
+function countSubscription(counts: Map<string, number>, method: string, delta: number) {
+    const count = (counts.get(method) ?? 0) + delta;
+    if (count > 0) counts.set(method, count);
+    else counts.delete(method);
+}
+
 export class InfoProvider implements Disposable {
     /** Instance of the panel, if it is open. Otherwise `undefined`. */
-    private webviewPanel?: WebviewPanel & {rpc: Rpc, api: InfoviewApi};
+    private webviewPanel?: InfoviewWebviewPanel;
+    private widgetPanels: Set<WidgetPanel> = new Set();
     private subscriptions: Disposable[] = [];
     private clientSubscriptions: Disposable[] = [];
+    private usageCountsTimeout?: NodeJS.Timeout;
 
     private stylesheet: string = '';
     private autoOpened: boolean = false;
     private clientProvider: LeanClientProvider;
+    /** Keeps the pinned positions of the infoview across reloads of the window. */
+    private storage: LocalStorageService;
 
     // Subscriptions are counted and only disposed of when count becomes 0.
     private serverNotifSubscriptions: Map<string, [number, Disposable[]]> = new Map();
@@ -71,21 +114,28 @@ export class InfoProvider implements Disposable {
 
     private subscribeDidChangeNotification(client: LeanClient, method: string){
         const h = client.didChange((params) => {
-            void this.webviewPanel?.api.sentClientNotification(method, params);
+            for (const api of this.infoviewApis()) void api.sentClientNotification(method, params);
+        });
+        return h;
+    }
+
+    private subscribeDidOpenNotification(client: LeanClient, method: string){
+        const h = client.didOpen((params) => {
+            for (const api of this.infoviewApis()) void api.sentClientNotification(method, params);
         });
         return h;
     }
 
     private subscribeDidCloseNotification(client: LeanClient, method: string){
         const h = client.didClose((params) => {
-            void this.webviewPanel?.api.sentClientNotification(method, params);
+            for (const api of this.infoviewApis()) void api.sentClientNotification(method, params);
         });
         return h;
     }
 
     private subscribeDiagnosticsNotification(client: LeanClient, method: string){
         const h = client.diagnostics((params) => {
-            void this.webviewPanel?.api.gotServerNotification(method, params);
+            for (const api of this.infoviewApis()) void api.gotServerNotification(method, params);
         });
         return h;
     }
@@ -93,7 +143,7 @@ export class InfoProvider implements Disposable {
     private subscribeCustomNotification(client: LeanClient, method: string){
         const h = client.customNotification(({method: thisMethod, params}) => {
             if (thisMethod !== method) return;
-            void this.webviewPanel?.api.gotServerNotification(method, params);
+            for (const api of this.infoviewApis()) void api.gotServerNotification(method, params);
         });
         return h;
     }
@@ -183,6 +233,12 @@ export class InfoProvider implements Disposable {
                     subscriptions.push(this.subscribeDidCloseNotification(client, method))
                 }
                 this.clientNotifSubscriptions.set(method, [1,subscriptions]);
+            } else if (method === 'textDocument/didOpen') {
+                const subscriptions : Disposable[] = [];
+                for (const client of this.clientProvider.getClients()) {
+                    subscriptions.push(this.subscribeDidOpenNotification(client, method))
+                }
+                this.clientNotifSubscriptions.set(method, [1,subscriptions]);
             } else {
                 throw new Error(`Subscription to '${method}' client notifications not implemented`);
             }
@@ -205,6 +261,17 @@ export class InfoProvider implements Disposable {
             await env.clipboard.writeText(text);
             await window.showInformationMessage(`Copied to clipboard: ${text}`);
         },
+        saveFile: async (contents, defaultName, filters) => {
+            const folder = workspace.workspaceFolders?.[0]?.uri;
+            const uri = await window.showSaveDialog({
+                defaultUri: folder ? Uri.joinPath(folder, defaultName) : undefined,
+                filters,
+            });
+            if (!uri) return undefined;
+            await workspace.fs.writeFile(uri, Buffer.from(contents, 'utf8'));
+            logger.log(`[InfoProvider] saved ${uri.toString()}`);
+            return uri.toString();
+        },
         insertText: async (text, kind, tdpp) => {
             let uri: Uri | undefined
             let pos: Position | undefined
@@ -221,30 +288,56 @@ export class InfoProvider implements Disposable {
             );
         },
 
-        createRpcSession: async uri => {
-            const client = this.clientProvider.findClient(uri);
-            if (!client) return '';
-            const sessionId = await rpcConnect(client, uri);
-            const session = new RpcSessionAtPos(client, sessionId, uri);
-            if (!this.webviewPanel) {
-                session.dispose();
-                throw Error('infoview disconnect while connecting to RPC session');
-            } else {
-                this.rpcSessions.set(sessionId, session);
-                return sessionId;
-            }
+        getTacticStart: async pos => {
+            const document = workspace.textDocuments.find(doc => doc.uri.toString() === pos.textDocument.uri);
+            if (!document) return undefined;
+            const position = p2cConverter.asPosition(pos.position);
+            const tactic = tacticsInLines(document, position.line, position.line).find(range => range.contains(position));
+            return tactic && c2pConverter.asPosition(tactic.start);
         },
+
+        createRpcSession: async uri =>
+            this.createRpcSession(uri, this.rpcSessions, () => this.webviewPanel !== undefined),
         closeRpcSession: async sessionId => {
-            const session = this.rpcSessions.get(sessionId);
-            if (session) {
-                this.rpcSessions.delete(sessionId);
-                session.dispose();
-            }
+            this.closeRpcSession(sessionId, this.rpcSessions);
+        },
+        savePins: async pins => {
+            this.storage.setInfoviewPins(pins);
+        },
+        completedAbbreviation: async symbol => {
+            this.abbreviations.recordUsage([symbol]);
+        },
+        popOutWidget: async (pos, widget) => {
+            await this.openWidgetPanel(pos.textDocument.uri, p2cConverter.asPosition(pos.position), widget);
         },
     };
 
-    constructor(private provider: LeanClientProvider, private readonly leanDocs: DocumentSelector, private context: ExtensionContext) {
+    private async createRpcSession(uri: ls.DocumentUri, sessions: Map<string, RpcSessionAtPos>, isOpen: () => boolean): Promise<string> {
+        const client = this.clientProvider.findClient(uri);
+        if (!client) return '';
+        const sessionId = await rpcConnect(client, uri);
+        const session = new RpcSessionAtPos(client, sessionId, uri);
+        if (!isOpen()) {
+            session.dispose();
+            throw Error('infoview disconnect while connecting to RPC session');
+        } else {
+            sessions.set(sessionId, session);
+            return sessionId;
+        }
+    }
+
+    private closeRpcSession(sessionId: string, sessions: Map<string, RpcSessionAtPos>) {
+        const session = sessions.get(sessionId);
+        if (session) {
+            sessions.delete(sessionId);
+            session.dispose();
+        }
+    }
+
+    constructor(private provider: LeanClientProvider, private readonly leanDocs: DocumentSelector, private context: ExtensionContext,
+                private readonly abbreviations: AbbreviationProvider) {
         this.clientProvider = provider;
+        this.storage = new LocalStorageService(context.workspaceState);
         this.updateStylesheet();
 
         provider.clientAdded((client) => {
@@ -267,8 +360,18 @@ export class InfoProvider implements Disposable {
                 this.updateStylesheet();
                 await this.sendConfig();
             }),
-            workspace.onDidChangeTextDocument(async () => {
+            abbreviations.symbolsChanged(async () => await this.sendConfig()),
+            abbreviations.usageCountsChanged(() => this.scheduleUsageCounts()),
+            workspace.onDidChangeTextDocument(async (e) => {
                 await this.sendPosition();
+                await this.moveWidgetPanels(e.document.uri.toString(), e.contentChanges);
+            }),
+            workspace.onDidCloseTextDocument(doc => {
+                // the position of a widget in a closed document cannot be followed anymore.
+                const uri = doc.uri.toString();
+                for (const panel of this.widgetPanels) {
+                    if (panel.uri === uri) panel.webviewPanel.dispose();
+                }
             }),
             commands.registerTextEditorCommand('lean4.displayGoal', (editor) => this.openPreview(editor)),
             commands.registerTextEditorCommand('lean4.displayList', async (editor) => {
@@ -293,6 +396,8 @@ export class InfoProvider implements Disposable {
                 subscriptions.push(this.subscribeDidChangeNotification(client, method))
             } else if (method === 'textDocument/didClose'){
                 subscriptions.push(this.subscribeDidCloseNotification(client, method))
+            } else if (method === 'textDocument/didOpen'){
+                subscriptions.push(this.subscribeDidOpenNotification(client, method))
             }
         }
 
@@ -315,6 +420,11 @@ export class InfoProvider implements Disposable {
             this.clientsFailed.delete(folder);
         }
         await this.initInfoView(window.activeTextEditor, client);
+        for (const panel of this.widgetPanels) {
+            if (client.initializeResult && this.clientProvider.findClient(panel.uri) === client) {
+                await panel.webviewPanel.api.serverRestarted(client.initializeResult);
+            }
+        }
     }
 
     private async onClientAdded(client: LeanClient) {
@@ -338,6 +448,10 @@ export class InfoProvider implements Disposable {
                 logger.log('[InfoProvider] got worker restarted event');
                 await this.onWorkerRestarted(uri);
             }),
+            client.closedWorker((uri) => {
+                // the sessions died with the worker, so there is no point in keeping them alive.
+                this.clearRpcSessionsForFile(uri);
+            }),
             client.didSetLanguage(() => this.onLanguageChanged()),
         );
 
@@ -398,6 +512,8 @@ export class InfoProvider implements Disposable {
         this.clearRpcSessions(null);
         for (const s of this.clientSubscriptions) { s.dispose(); }
         for (const s of this.subscriptions) { s.dispose(); }
+        for (const panel of this.widgetPanels) { panel.webviewPanel.dispose(); }
+        if (this.usageCountsTimeout !== undefined) clearTimeout(this.usageCountsTimeout);
     }
 
     isOpen() : boolean {
@@ -466,16 +582,90 @@ export class InfoProvider implements Disposable {
         this.serverNotifSubscriptions.clear();
     }
 
-    private clearRpcSessions(client: LeanClient | null) {
-        const remaining = new Map()
-        for (const [sessionId, sess] of this.rpcSessions) {
-            if (client === null || sess.client === client) {
-                sess.dispose();
+    /** Takes back the subscriptions counted in `counts` from those of all webviews in `subscriptions`. */
+    private releaseNotificationSubscriptions(counts: Map<string, number>, subscriptions: Map<string, [number, Disposable[]]>) {
+        for (const [method, released] of counts) {
+            const el = subscriptions.get(method);
+            if (!el) continue;
+            const [count, handlers] = el;
+            if (count <= released) {
+                for (const h of handlers) h.dispose();
+                subscriptions.delete(method);
             } else {
-                remaining.set(sessionId, sess);
+                subscriptions.set(method, [count - released, handlers]);
+            }
+        }
+        counts.clear();
+    }
+
+    /** The infoview and the panels of popped out widgets, which all get the subscribed notifications. */
+    private infoviewApis(): InfoviewApi[] {
+        const apis = [...this.widgetPanels].map(panel => panel.webviewPanel.api);
+        if (this.webviewPanel) apis.push(this.webviewPanel.api);
+        return apis;
+    }
+
+    /** The RPC sessions of the infoview and of the panels of popped out widgets. */
+    private allRpcSessions(): Map<string, RpcSessionAtPos>[] {
+        return [this.rpcSessions, ...[...this.widgetPanels].map(panel => panel.rpcSessions)];
+    }
+
+    private disposeRpcSessions(sessions: Map<string, RpcSessionAtPos>, shouldDispose: (sess: RpcSessionAtPos) => boolean) {
+        for (const [sessionId, sess] of sessions) {
+            if (shouldDispose(sess)) {
+                sess.dispose();
+                sessions.delete(sessionId);
             }
         }
-        this.rpcSessions = remaining
+    }
+
+    private clearRpcSessions(client: LeanClient | null) {
+        for (const sessions of this.allRpcSessions()) {
+            this.disposeRpcSessions(sessions, sess => client === null || sess.client === client);
+        }
+    }
+
+    private clearRpcSessionsForFile(uri: string) {
+        for (const sessions of this.allRpcSessions()) {
+            this.disposeRpcSessions(sessions, sess => sess.uri === uri);
+        }
+    }
+
+    /** Creates a webview running the infoview, which uses `editorApi` to talk to the editor. */
+    private createWebviewPanel(title: string, column: ViewColumn, editorApi: EditorApi): InfoviewWebviewPanel {
+        const webviewPanel = window.createWebviewPanel('lean4', title,
+            { viewColumn: column, preserveFocus: true },
+            {
+                enableFindWidget: true,
+                retainContextWhenHidden: true,
+                enableScripts: true,
+                enableCommandUris: true,
+            }) as InfoviewWebviewPanel;
+
+        // Note that an extension can send data to its webviews using webview.postMessage().
+        // This method sends any JSON serializable data to the webview. The message is received
+        // inside the webview through the standard message event.
+        // The receiving of these messages is done inside webview\index.ts where it
+        // calls window.addEventListener('message',...
+        webviewPanel.rpc = new Rpc(m => {
+            try {
+                void webviewPanel.webview.postMessage(m)
+            } catch (e) {
+                // ignore any disposed object exceptions
+            }
+        });
+        webviewPanel.rpc.register(editorApi);
+
+        // Similarly, we can received data from the webview by listening to onDidReceiveMessage.
+        webviewPanel.webview.onDidReceiveMessage(m => {
+            try {
+                webviewPanel.rpc.messageReceived(m)
+            } catch {
+                // ignore any disposed object exceptions
+            }
+        });
+        webviewPanel.api = webviewPanel.rpc.getApi();
+        return webviewPanel;
     }
 
     private async openPreview(editor: TextEditor) {
@@ -484,42 +674,13 @@ export class InfoProvider implements Disposable {
         if (this.webviewPanel) {
             this.webviewPanel.reveal(column, true);
         } else {
-            const webviewPanel = window.createWebviewPanel('lean4', 'Lean Infoview',
-                { viewColumn: column, preserveFocus: true },
-                {
-                    enableFindWidget: true,
-                    retainContextWhenHidden: true,
-                    enableScripts: true,
-                    enableCommandUris: true,
-                }) as WebviewPanel & {rpc: Rpc, api: InfoviewApi};
-
-            // Note that an extension can send data to its webviews using webview.postMessage().
-            // This method sends any JSON serializable data to the webview. The message is received
-            // inside the webview through the standard message event.
-            // The receiving of these messages is done inside webview\index.ts where it
-            // calls window.addEventListener('message',...
-            webviewPanel.rpc = new Rpc(m => {
-                try {
-                    void webviewPanel.webview.postMessage(m)
-                } catch (e) {
-                    // ignore any disposed object exceptions
-                }
-            });
-            webviewPanel.rpc.register(this.editorApi);
-
-            // Similarly, we can received data from the webview by listening to onDidReceiveMessage.
-            webviewPanel.webview.onDidReceiveMessage(m => {
-                try {
-                    webviewPanel.rpc.messageReceived(m)
-                } catch {
-                    // ignore any disposed object exceptions
-                }
-            });
-            webviewPanel.api = webviewPanel.rpc.getApi();
+            const webviewPanel = this.createWebviewPanel('Lean Infoview', column, this.editorApi);
             webviewPanel.onDidDispose(() => {
                 this.webviewPanel = undefined;
-                this.clearNotificationHandlers();
-                this.clearRpcSessions(null); // should be after `webviewPanel = undefined`
+                // the panels of popped out widgets still need the notifications.
+                if (this.widgetPanels.size === 0) this.clearNotificationHandlers();
+                // should be after `webviewPanel = undefined`
+                this.disposeRpcSessions(this.rpcSessions, () => true);
             });
             this.webviewPanel = webviewPanel;
             webviewPanel.webview.html = this.initialHtml();
@@ -530,6 +691,77 @@ export class InfoProvider implements Disposable {
         }
     }
 
+    private async openWidgetPanel(uri: string, pos: Position, widget: UserWidgetInstance) {
+        const client = this.clientProvider.findClient(uri);
+        if (!client?.initializeResult) return;
+        // The panel shares the connection to the server with the infoview, but has its own RPC sessions.
+        const rpcSessions = new Map<string, RpcSessionAtPos>();
+        const serverNotifSubscriptions = new Map<string, number>();
+        const clientNotifSubscriptions = new Map<string, number>();
+        const webviewPanel = this.createWebviewPanel(widget.name, ViewColumn.Beside, {
+            ...this.editorApi,
+            subscribeServerNotifications: async method => {
+                await this.editorApi.subscribeServerNotifications(method);
+                countSubscription(serverNotifSubscriptions, method, 1);
+            },
+            unsubscribeServerNotifications: async method => {
+                await this.editorApi.unsubscribeServerNotifications(method);
+                countSubscription(serverNotifSubscriptions, method, -1);
+            },
+            subscribeClientNotifications: async method => {
+                await this.editorApi.subscribeClientNotifications(method);
+                countSubscription(clientNotifSubscriptions, method, 1);
+            },
+            unsubscribeClientNotifications: async method => {
+                await this.editorApi.unsubscribeClientNotifications(method);
+                countSubscription(clientNotifSubscriptions, method, -1);
+            },
+            createRpcSession: async uri =>
+                this.createRpcSession(uri, rpcSessions, () => this.widgetPanels.has(panel)),
+            closeRpcSession: async sessionId => {
+                this.closeRpcSession(sessionId, rpcSessions);
+            },
+            // the panel has no pins, which must not replace those of the infoview.
+            savePins: async () => {},
+        });
+        const panel: WidgetPanel = {
+            webviewPanel, uri, pos, widget, rpcSessions, serverNotifSubscriptions, clientNotifSubscriptions
+        };
+        panel.webviewPanel.onDidDispose(() => {
+            this.widgetPanels.delete(panel);
+            // a closed webview does not unsubscribe, so the handlers would stay around as long as the infoview.
+            this.releaseNotificationSubscriptions(panel.serverNotifSubscriptions, this.serverNotifSubscriptions);
+            this.releaseNotificationSubscriptions(panel.clientNotifSubscriptions, this.clientNotifSubscriptions);
+            if (!this.webviewPanel && this.widgetPanels.size === 0) this.clearNotificationHandlers();
+            this.disposeRpcSessions(panel.rpcSessions, () => true);
+        });
+        this.widgetPanels.add(panel);
+        panel.webviewPanel.webview.html = this.initialHtml();
+        logger.log(`[InfoProvider] popped out widget ${widget.id} at ${uri}:${pos.line + 1}:${pos.character}`);
+
+        // the widget must be there before the server, so that the panel never shows the infos of the infoview.
+        await this.sendWidgetPanelPosition(panel);
+        await panel.webviewPanel.api.serverRestarted(client.initializeResult);
+        await this.sendConfig();
+        await this.sendUsageCounts();
+    }
+
+    private async sendWidgetPanelPosition(panel: WidgetPanel) {
+        await panel.webviewPanel.api.changedPoppedOutWidget({
+            pos: { textDocument: { uri: panel.uri }, position: c2pConverter.asPosition(panel.pos) },
+            widget: panel.widget,
+        });
+    }
+
+    private async moveWidgetPanels(uri: string, changes: readonly TextDocumentContentChangeEvent[]) {
+        for (const panel of this.widgetPanels) {
+            if (panel.uri !== uri || changes.length === 0) continue;
+            for (const change of changes) panel.pos = shiftPosition(panel.pos, change);
+            // also when the position did not move, since the widget may have changed.
+            await this.sendWidgetPanelPosition(panel);
+        }
+    }
+
     private async initInfoView(editor: TextEditor | undefined, client: LeanClient | null){
         if (editor) {
             const loc = this.getLocation(editor);
@@ -542,19 +774,47 @@ export class InfoProvider implements Disposable {
         // so that it has up-to-date information.
         if (client?.initializeResult) {
             await this.webviewPanel?.api.serverStopped(undefined); // clear any server stopped state
+            // the pins must be there before the infoview shows them. All of them are sent, since the files
+            // of background tabs are only opened later after a reload, and the infoview saves the pins it got.
+            await this.webviewPanel?.api.restoredPins(this.storage.getInfoviewPins());
             await this.webviewPanel?.api.serverRestarted(client.initializeResult);
             await this.sendDiagnostics(client);
             await this.sendProgress(client);
             await this.sendPosition();
             await this.sendConfig();
+            await this.sendUsageCounts();
         }
     }
 
     private async sendConfig() {
-       await this.webviewPanel?.api.changedInfoviewConfig({
+       const abbreviationConfig = new AbbreviationConfig();
+       const config = {
            infoViewAllErrorsOnLine: getInfoViewAllErrorsOnLine(),
            infoViewAutoOpenShowGoal: getInfoViewAutoOpenShowGoal(),
-       });
+           infoViewReverseTacticState: getInfoViewReverseTacticState(),
+           infoViewHideTypeAssumptions: getInfoViewHideTypeAssumptions(),
+           infoViewHideInstanceAssumptions: getInfoViewHideInstanceAssumptions(),
+           infoViewHideInaccessibleAssumptions: getInfoViewHideInaccessibleAssumptions(),
+           // text inputs of the infoview replace abbreviations just like the editor does.
+           inputAbbreviations: abbreviationConfig.inputModeEnabled.get() ? this.abbreviations.symbolsByAbbreviation : {},
+           inputLeader: abbreviationConfig.abbreviationCharacter.get(),
+           inputEagerReplacementEnabled: abbreviationConfig.eagerReplacementEnabled.get(),
+       };
+       for (const api of this.infoviewApis()) await api.changedInfoviewConfig(config);
+    }
+
+    private async sendUsageCounts() {
+        const usageCounts = this.abbreviations.getUsageCounts();
+        for (const api of this.infoviewApis()) await api.changedAbbreviationUsageCounts(usageCounts);
+    }
+
+    /** The usage counts change with every abbreviation that is typed, so we batch sending them. */
+    private scheduleUsageCounts() {
+        if (this.usageCountsTimeout !== undefined) return;
+        this.usageCountsTimeout = setTimeout(() => {
+            this.usageCountsTimeout = undefined;
+            void this.sendUsageCounts();
+        }, 1000);
     }
 
     private async sendDiagnostics(client: LeanClient) {
@@ -572,7 +832,7 @@ export class InfoProvider implements Disposable {
         for (const [uri, processing] of client.progress) {
             const params: LeanFileProgressParams = {
                 textDocument: {
-                    uri: c2pConverter.asUri(uri),
+                    uri,
                     version: 0, // HACK: The infoview ignores this
                 },
                 processing,
@@ -601,10 +861,22 @@ export class InfoProvider implements Disposable {
         };
     }
 
+    private getSelectionLocations(editor: TextEditor): ls.Location[] {
+        const uri = editor.document.uri.toString();
+        return editor.selections.map(selection => ({
+            uri,
+            range: {
+                start: selection.start,
+                end: selection.end
+            }
+        }));
+    }
+
     private async sendPosition() {
         const editor = window.activeTextEditor;
         if (!editor) return
         const loc = this.getLocation(editor);
+        const selections = this.getSelectionLocations(editor);
         if (languages.match(this.leanDocs, editor.document) === 0){
             // language is not yet 'lean4', but the LeanClient will fire the didSetLanguage event
             // in openLean4Document and that's when we can send the position to update the
@@ -627,20 +899,21 @@ export class InfoProvider implements Disposable {
                     // send stopped event
                     await this.webviewPanel?.api.serverStopped(reason);
                 } else {
-                    await this.updateStatus(loc)
+                    await this.updateStatus(loc, selections)
                 }
             } else {
                 logger.log('[InfoProvider] ### what does it mean to have sendPosition but no LeanClient for this document???')
             }
         } else {
-            await this.updateStatus(loc)
+            await this.updateStatus(loc, selections)
         }
     }
 
-    private async updateStatus(loc: ls.Location | undefined): Promise<void> {
+    private async updateStatus(loc: ls.Location | undefined, selections: ls.Location[]): Promise<void> {
         await this.webviewPanel?.api.serverStopped(undefined); // clear any server stopped state
         await this.autoOpen();
         await this.webviewPanel?.api.changedCursorLocation(loc);
+        await this.webviewPanel?.api.changedSelections(selections);
     }
 
     private async revealEditorSelection(uri: Uri, selection?: Range) {
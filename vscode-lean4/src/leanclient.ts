@@ -1,10 +1,11 @@
 import { TextDocument, EventEmitter, Diagnostic,
     DocumentHighlight, Range, DocumentHighlightKind, workspace,
     Disposable, Uri, ConfigurationChangeEvent, OutputChannel, DiagnosticCollection,
-    WorkspaceFolder, window } from 'vscode'
+    WorkspaceFolder, window, languages, DiagnosticSeverity, Position, CancellationToken } from 'vscode'
 import {
     DidChangeTextDocumentParams,
     DidCloseTextDocumentParams,
+    DidOpenTextDocumentParams,
     DidOpenTextDocumentNotification,
     DocumentFilter,
     InitializeResult,
@@ -14,26 +15,39 @@ import {
     ServerOptions,
     State
 } from 'vscode-languageclient/node'
+import { MessageTransports } from 'vscode-languageclient'
 import * as ls from 'vscode-languageserver-protocol'
 
-import { toolchainPath, lakePath, addServerEnvPaths, serverArgs, serverLoggingEnabled, serverLoggingPath, shouldAutofocusOutput, getElaborationDelay, lakeEnabled } from './config'
+import { toolchainPath, serverLoggingEnabled, serverLoggingPath, shouldAutofocusOutput, lakeEnabled,
+    serverAutoRestartEnabled, serverAutoRestartMaxRestarts, serverAutoRestartWindow, idleWorkerTimeout } from './config'
 import { assert } from './utils/assert'
-import { LeanFileProgressParams, LeanFileProgressProcessingInfo, ServerStoppedReason } from '@leanprover/infoview-api';
+import { LeanFileProgressProcessingInfo, ServerStoppedReason } from '@leanprover/infoview-api';
 import { LocalStorageService} from './utils/localStorage'
-import { batchExecute } from './utils/batch'
-import { readLeanVersion } from './utils/projectInfo';
 import * as fs from 'fs';
-import { URL } from 'url';
-import { join } from 'path';
+import * as path from 'path';
+import { ChildProcess } from 'child_process';
 import { logger } from './utils/logger'
- // @ts-ignore
-import { SemVer } from 'semver';
-import { fileExists, isFileInFolder } from './utils/fsHelper';
+import { isFileInFolder } from './utils/fsHelper';
 import { c2pConverter, p2cConverter, patchConverters } from './utils/converters'
+import { LeanServerNotifications, parseLakeOutput, resolveServerCommand, ServerCommand, spawnServer } from '@leanprover/lean4-client'
+import { LspRecorder, ReplayServer, tapTransports } from './utils/lspRecording'
+import { readLeanVersion } from './utils/projectInfo'
+import { projectElaborationDelay, projectLakePath, projectServerArgs, projectServerEnv, readProjectServerConfig } from './utils/projectConfig'
 
 const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-export type ServerProgress = Map<Uri, LeanFileProgressProcessingInfo[]>;
+/** Delay before the first automatic restart after a crash, doubled on every further crash. */
+const autoRestartInitialDelayMs = 1000
+const autoRestartMaxDelayMs = 30000
+
+/** Time the server gets to exit after the client stopped, before the process is killed. */
+const serverExitTimeoutMs = 2000
+
+/** How much of the standard error output of the server we keep to look for errors in the Lake configuration. */
+const maxStderrLength = 100000
+
+/** The latest progress of each file, by the uri of the file as the server sees it. */
+export type ServerProgress = ReadonlyMap<ls.DocumentUri, LeanFileProgressProcessingInfo[]>;
 
 export function getFullRange(diag: Diagnostic): Range {
     return (diag as any)?.fullRange || diag.range;
@@ -50,6 +64,18 @@ export class LeanClient implements Disposable {
     private subscriptions: Disposable[] = []
     private noPrompt : boolean = false;
     private showingRestartMessage : boolean = false;
+    /** Times (from `Date.now()`) of the recent crashes that caused an automatic restart. */
+    private crashTimes: number[] = [];
+    private autoRestartTimeout?: NodeJS.Timeout;
+    /** The `lake serve` or `lean --server` process, if it was started. */
+    private serverProcess?: ChildProcess;
+    /** The standard error output of the current server process, see `checkLakeFileErrors`. */
+    private serverStderr = '';
+    /** Errors in `lakefile.lean` which prevented `lake serve` from starting. */
+    private lakeFileDiagnostics: DiagnosticCollection;
+    private configurationErrorMessage?: string;
+    /** Records the messages between the client and the server while a session is being recorded. */
+    private recorder?: LspRecorder;
 
     private didChangeEmitter = new EventEmitter<DidChangeTextDocumentParams>()
     didChange = this.didChangeEmitter.event
@@ -67,8 +93,13 @@ export class LeanClient implements Disposable {
     /** Fires whenever a custom notification (i.e. one not defined in LSP) is received. */
     customNotification = this.customNotificationEmitter.event;
 
+    /** What the server reported about each file, shared with the VS Code independent `LeanServerClient`. */
+    private notifications = new LeanServerNotifications()
+
     /** saved progress info in case infoview is opened, it needs to get all of it. */
-    progress: ServerProgress = new Map()
+    get progress(): ServerProgress {
+        return this.notifications.progress
+    }
 
     private progressChangedEmitter = new EventEmitter<[string, LeanFileProgressProcessingInfo[]]>()
     progressChanged = this.progressChangedEmitter.event
@@ -88,18 +119,53 @@ export class LeanClient implements Disposable {
     private serverFailedEmitter = new EventEmitter<string>();
     serverFailed = this.serverFailedEmitter.event
 
+    private closedWorkerEmitter = new EventEmitter<string>()
+    closedWorker = this.closedWorkerEmitter.event
+
+    private didOpenEmitter = new EventEmitter<DidOpenTextDocumentParams>()
+    didOpen = this.didOpenEmitter.event
+
+    private configurationErrorEmitter = new EventEmitter<string>()
+    /** Fires when the server could not be started because of errors in the Lake configuration of the package. */
+    configurationError = this.configurationErrorEmitter.event
+
     /** Files which are open. */
     private isOpen: Map<string, TextDocument> = new Map()
 
-    constructor(workspaceFolder: WorkspaceFolder | undefined, folderUri: Uri, storageManager : LocalStorageService, outputChannel : OutputChannel) {
+    /** Files which are open, but whose worker was closed to free resources. */
+    private closedWorkers: Set<string> = new Set()
+
+    /** Timers closing the workers of files which are not visible in any editor, see `idleWorkerTimeout()`. */
+    private idleTimeouts: Map<string, NodeJS.Timeout> = new Map()
+
+    /**
+     * `replayServer` replaces the Lean server by a stub which replays a recorded session,
+     * see the `lean4.replaySession` command.
+     */
+    constructor(workspaceFolder: WorkspaceFolder | undefined, folderUri: Uri, storageManager : LocalStorageService, outputChannel : OutputChannel,
+            private replayServer?: ReplayServer) {
         this.storageManager = storageManager;
         this.outputChannel = outputChannel;
         this.workspaceFolder = workspaceFolder; // can be null when opening adhoc files.
         this.folderUri = folderUri;
         this.subscriptions.push(workspace.onDidChangeConfiguration((e) => this.configChanged(e)));
+        this.subscriptions.push(window.onDidChangeVisibleTextEditors(() => this.updateIdleTimeouts()));
+        this.lakeFileDiagnostics = languages.createDiagnosticCollection('lake');
+        this.subscriptions.push(this.lakeFileDiagnostics);
+        this.subscriptions.push(
+            this.notifications,
+            this.notifications.progressChanged(([uri, processing]) =>
+                this.progressChangedEmitter.fire([p2cConverter.asUri(uri).toString(), processing])),
+            this.notifications.diagnosticsChanged(params => this.diagnosticsEmitter.fire(params)),
+            this.notifications.customNotification(notification => this.customNotificationEmitter.fire(notification)),
+        );
     }
 
     dispose(): void {
+        this.cancelAutoRestart()
+        this.stopRecording()
+        this.replayServer?.dispose()
+        for (const uri of [...this.idleTimeouts.keys()]) this.cancelIdleTimeout(uri)
         this.subscriptions.forEach((s) => s.dispose())
         if (this.isStarted()) void this.stop()
     }
@@ -128,73 +194,78 @@ export class LeanClient implements Disposable {
         }
     }
 
+    private cancelAutoRestart() {
+        if (this.autoRestartTimeout !== undefined) {
+            clearTimeout(this.autoRestartTimeout)
+            this.autoRestartTimeout = undefined
+        }
+    }
+
+    /**
+     * Schedules a restart of a crashed server, waiting exponentially longer after each crash.
+     * Returns false when the server crashed too often recently, in which case the user must decide.
+     */
+    private scheduleAutoRestart(): boolean {
+        const now = Date.now()
+        const windowMs = serverAutoRestartWindow() * 1000
+        this.crashTimes = this.crashTimes.filter(t => now - t < windowMs)
+        this.crashTimes.push(now)
+        if (this.crashTimes.length > serverAutoRestartMaxRestarts()) {
+            logger.log(`[LeanClient] server crashed ${this.crashTimes.length} times, giving up on automatic restarts`)
+            this.crashTimes = []
+            return false
+        }
+
+        const delay = Math.min(autoRestartInitialDelayMs * Math.pow(2, this.crashTimes.length - 1), autoRestartMaxDelayMs)
+        logger.log(`[LeanClient] server crashed, restarting automatically in ${delay} ms`)
+        this.outputChannel.appendLine(`Lean server has stopped unexpectedly, restarting in ${delay / 1000} seconds...`)
+        this.cancelAutoRestart()
+        this.autoRestartTimeout = setTimeout(() => {
+            this.autoRestartTimeout = undefined
+            void this.restart()
+        }, delay)
+        return true
+    }
+
     async restart(): Promise<void> {
         const startTime = Date.now()
 
+        this.cancelAutoRestart()
+
         logger.log('[LeanClient] Restarting Lean Server')
         if (this.isStarted()) {
             await this.stop()
         }
 
         this.restartingEmitter.fire(undefined)
+        this.configurationErrorMessage = undefined
+        this.lakeFileDiagnostics.clear()
         this.toolchainPath = this.storageManager.getLeanPath();
         if (!this.toolchainPath) this.toolchainPath = toolchainPath();
-        const version = this.storageManager.getLeanVersion();
-        const env = addServerEnvPaths(process.env);
-        if (serverLoggingEnabled()) {
-            env.LEAN_SERVER_LOG_DIR = serverLoggingPath()
-        }
-
-        let executable = lakePath() ||
-            (this.toolchainPath ? join(this.toolchainPath, 'bin', 'lake') : 'lake');
-
-        // check if the lake process will start (skip it on scheme: 'untitled' files)
-        let useLake = lakeEnabled() && this.folderUri && this.folderUri.scheme === 'file';
-        if (useLake) {
-            let knownDate = false;
-            const lakefile = Uri.joinPath(this.folderUri, 'lakefile.lean')
-            if (!await fileExists(new URL(lakefile.toString()))) {
-                useLake = false;
-            }
-            else {
-                // see if we can avoid the more expensive checkLakeVersion call.
-                const date = await this.checkToolchainVersion(this.folderUri);
-                if (date){
-                    // Feb 16 2022 is when the 3.1.0.pre was released.
-                    useLake = date >= new Date(2022, 1, 16);
-                    knownDate = true;
-                }
-                if (useLake && !knownDate){
-                    useLake = await this.checkLakeVersion(executable, version);
-                }
-            }
-        }
-
-        if (!useLake) {
-            executable = (this.toolchainPath) ? join(this.toolchainPath, 'bin', 'lean') : 'lean';
-        }
-
-        let options = version ? ['+' + version] :[]
-        if (useLake) {
-            options = options.concat(['serve', '--'])
-        } else{
-            options = options.concat(['--server'])
-        }
-
-        // Add folder name to command-line so that it shows up in `ps aux`.
-        if (this.folderUri) {
-            options.push('' + this.folderUri.fsPath)
+        // settings in the package override the VS Code settings.
+        const projectConfig = this.replayServer ? {} : await readProjectServerConfig(this.folderUri);
+        let serverOptions: ServerOptions;
+        let useLake = false;
+        const replayServer = this.replayServer;
+        if (replayServer) {
+            serverOptions = async () => this.recordTransports(replayServer.connect());
         } else {
-            options.push('untitled')
-        }
-
-        const serverOptions: ServerOptions = {
-            command: executable,
-            args: options.concat(serverArgs()),
-            options: {
-                cwd: this.folderUri?.fsPath,
-                env
-            }
+            const version = this.storageManager.getLeanVersion();
+            const serverCommand = await resolveServerCommand({
+                // skip the lake check on scheme: 'untitled' files
+                folderPath: this.folderUri?.scheme === 'file' ? this.folderUri.fsPath : undefined,
+                toolchainPath: this.toolchainPath,
+                lakePath: projectLakePath(projectConfig) || undefined,
+                lakeEnabled: lakeEnabled(),
+                toolchainVersion: version,
+                packageToolchain: await readLeanVersion(this.folderUri) ?? undefined,
+                serverArgs: projectServerArgs(projectConfig),
+                env: projectServerEnv(projectConfig),
+                serverLoggingPath: serverLoggingEnabled() ? serverLoggingPath() : undefined,
+                log: msg => logger.log(`[LeanClient] ${msg}`),
+            })
+            useLake = serverCommand.useLake;
+            serverOptions = async () => this.recordTransports(this.spawnServer(serverCommand));
         }
 
         const documentSelector: DocumentFilter = {
@@ -213,7 +284,7 @@ export class LeanClient implements Disposable {
             documentSelector: [documentSelector],
             workspaceFolder: this.workspaceFolder,
             initializationOptions: {
-                editDelay: getElaborationDelay(), hasWidgets: true,
+                editDelay: projectElaborationDelay(projectConfig), hasWidgets: true,
             },
             connectionOptions: {
                 maxRestartCount: 0,
@@ -223,15 +294,8 @@ export class LeanClient implements Disposable {
                 handleDiagnostics: (uri, diagnostics, next) => {
                     next(uri, diagnostics);
                     if (!this.client) return;
-                    const uri_ = c2pConverter.asUri(uri);
-                    const diagnostics_ = [];
-                    for (const d of diagnostics) {
-                        const d_: ls.Diagnostic = {
-                            ...c2pConverter.asDiagnostic(d),
-                        };
-                        diagnostics_.push(d_);
-                    }
-                    this.diagnosticsEmitter.fire({uri: uri_, diagnostics: diagnostics_});
+                    const diagnostics_: ls.Diagnostic[] = diagnostics.map(d => c2pConverter.asDiagnostic(d));
+                    this.notifications.handleDiagnostics({uri: c2pConverter.asUri(uri), diagnostics: diagnostics_});
                 },
 
                 didOpen: async () => {
@@ -248,7 +312,13 @@ export class LeanClient implements Disposable {
                 },
 
                 didChange: async (data, next) => {
-                    await next(data);
+                    if (this.closedWorkers.has(data.document.uri.toString())) {
+                        // the server does not know about this document anymore,
+                        // so we send it the new contents instead of the change.
+                        this.reopenWorker(data.document);
+                    } else {
+                        await next(data);
+                    }
                     if (!this.running || !this.client) return; // there was a problem starting lean server.
                     const params = c2pConverter.asChangeTextDocumentParams(data);
                     this.didChangeEmitter.fire(params);
@@ -258,7 +328,10 @@ export class LeanClient implements Disposable {
                     if (!this.isOpen.delete(doc.uri.toString())) {
                         return;
                     }
-                    await next(doc);
+                    this.cancelIdleTimeout(doc.uri.toString());
+                    if (!this.closedWorkers.delete(doc.uri.toString())) {
+                        await next(doc);
+                    }
                     if (!this.running || !this.client) return; // there was a problem starting lean server.
                     const params = c2pConverter.asCloseTextDocumentParams(doc);
                     this.didCloseEmitter.fire(params);
@@ -300,6 +373,8 @@ export class LeanClient implements Disposable {
             clientOptions
         )
         let insideRestart = true;
+        // set when the Stopped state below was left to the lakefile check of the catch block.
+        let stoppedWhileStarting = false;
         patchConverters(this.client.protocol2CodeConverter, this.client.code2ProtocolConverter)
         try {
             this.client.onDidChangeState(async (s) => {
@@ -318,7 +393,16 @@ export class LeanClient implements Disposable {
                     logger.log('[LeanClient] has stopped or it failed to start');
                     if (!this.noPrompt){
                         // only raise this event and show the message if we are not the ones
-                        // who called the stop() method.
+                        // who called the stop() method.  A server that crashed after it was
+                        // successfully started may be restarted without bothering the user.
+                        if (!insideRestart && serverAutoRestartEnabled() && this.scheduleAutoRestart()) {
+                            return;
+                        }
+                        // when `lake serve` fails to start, restart() checks the output for errors in the lakefile.
+                        if (insideRestart && useLake) {
+                            stoppedWhileStarting = true;
+                            return;
+                        }
                         this.stoppedEmitter.fire({message:'Lean server has stopped.', reason:''});
                         await this.showRestartMessage();
                     }
@@ -327,6 +411,7 @@ export class LeanClient implements Disposable {
             this.client.start()
             await this.client.onReady();
             // tell the new client about the documents that are already open!
+            this.closedWorkers.clear();
             for (const key of this.isOpen.keys()) {
                 const doc = this.isOpen.get(key);
                 if (doc) this.notifyDidOpen(doc);
@@ -335,8 +420,19 @@ export class LeanClient implements Disposable {
             this.running = true;
         } catch (error) {
             this.outputChannel.appendLine('' + error);
-            this.serverFailedEmitter.fire('' + error);
+            // still inside the restart while waiting for the output of lake, so that a stop is not taken for a crash.
+            const lakeFileErrors = useLake && await this.checkLakeFileErrors();
             insideRestart = false;
+            if (lakeFileErrors) {
+                // keep this client so that it can be restarted once the lakefile is fixed.
+                return;
+            }
+            if (stoppedWhileStarting && !this.noPrompt) {
+                // what the handler of the Stopped state left to us, without waiting for the user to answer.
+                this.stoppedEmitter.fire({message:'Lean server has stopped.', reason:''});
+                void this.showRestartMessage();
+            }
+            this.serverFailedEmitter.fire('' + error);
             return;
         }
 
@@ -345,38 +441,125 @@ export class LeanClient implements Disposable {
         // here: https://github.com/microsoft/vscode-languageserver-node/blob/b2fc85d28a1a44c22896559ee5f4d3ba37a02ef5/jsonrpc/src/common/connection.ts#L497
         // which fires on any LSP notifications not in the standard, for example the `$/lean/..` ones.
         // However this mechanism is not exposed in vscode-languageclient, so we hack around its implementation.
-        const starHandler = (method: string, params_: any) => {
-            if (method === '$/lean/fileProgress' && this.client) {
-                const params = params_ as LeanFileProgressParams;
-                const uri = p2cConverter.asUri(params.textDocument.uri)
-                this.progressChangedEmitter.fire([uri.toString(), params.processing]);
-                // save the latest progress on this Uri in case infoview needs it later.
-                this.progress.set(uri, params.processing);
-            }
-
-            this.customNotificationEmitter.fire({method, params: params_});
-        };
+        // The handler saves the latest progress of each file in case the infoview needs it later.
         // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-        this.client.onNotification(starHandler as any, () => {});
-
-        // Reveal the standard error output channel when the server prints something to stderr.
-        // The vscode-languageclient library already takes care of writing it to the output channel.
-        (this.client as any)._serverProcess.stderr.on('data', () => {
-            if (shouldAutofocusOutput()) this.client?.outputChannel.show(true);
-        });
+        this.client.onNotification(this.notifications.handleNotification as any, () => {});
 
         this.restartedEmitter.fire(undefined)
         insideRestart = false;
     }
 
+    /**
+     * Starts the server process. We start it ourselves rather than letting vscode-languageclient do it,
+     * because it neither exposes the process nor the messages exchanged with it.
+     */
+    private spawnServer(cmd: ServerCommand): MessageTransports {
+        this.serverStderr = '';
+        const { process: proc, reader, writer } = spawnServer(cmd, (text) => {
+            this.serverStderr = (this.serverStderr + text).slice(-maxStderrLength);
+            this.outputChannel.append(text);
+            // Reveal the output channel when the server prints something to stderr.
+            if (shouldAutofocusOutput()) this.outputChannel.show(true);
+        }, msg => logger.log(`[LeanClient] ${msg}`));
+        proc.on('exit', () => {
+            if (this.serverProcess === proc) this.serverProcess = undefined;
+        });
+        this.serverProcess = proc;
+        return { reader, writer };
+    }
+
+    /**
+     * Looks for errors in the output of a `lake serve` that failed to start, e.g. because `lakefile.lean` does not compile
+     * or a dependency is missing. If there are any, they are shown on the lakefile and the client enters the
+     * configuration error state, from which it is restarted when the lakefile changes.
+     */
+    private async checkLakeFileErrors(): Promise<boolean> {
+        const proc = this.serverProcess;
+        if (proc && proc.exitCode === null && proc.signalCode === null) {
+            // wait for the remaining output of the process.
+            await new Promise<void>(resolve => {
+                const timeout = setTimeout(resolve, serverExitTimeoutMs);
+                proc.on('exit', () => { clearTimeout(timeout); resolve(); });
+            });
+        }
+
+        const errors = parseLakeOutput(this.serverStderr).filter(m => m.severity === 'error');
+        if (errors.length === 0) return false;
+
+        const lakeFileUri = Uri.joinPath(this.folderUri, 'lakefile.lean');
+        this.lakeFileDiagnostics.set(lakeFileUri, errors.map(e => {
+            // messages about other files, e.g. those of dependencies, are shown at the start of the lakefile.
+            const ownFile = e.file === undefined || path.resolve(this.folderUri.fsPath, e.file) === lakeFileUri.fsPath;
+            const position = ownFile ? new Position(Math.max(e.line - 1, 0), e.column) : new Position(0, 0);
+            const message = ownFile || !e.file ? e.message : `${e.file}:${e.line}:${e.column}: ${e.message}`;
+            const diagnostic = new Diagnostic(new Range(position, position), message, DiagnosticSeverity.Error);
+            diagnostic.source = 'lake';
+            return diagnostic;
+        }));
+
+        this.configurationErrorMessage = errors[0].message;
+        logger.log(`[LeanClient] lake serve failed because of errors in the Lake configuration: ${this.configurationErrorMessage}`);
+        this.stoppedEmitter.fire({ message: 'The Lean server could not be started because of errors in the Lake configuration.',
+            reason: errors.map(e => e.message).join('\n') });
+        this.configurationErrorEmitter.fire(this.configurationErrorMessage);
+        return true;
+    }
+
+    /** The `lake` command with the given arguments for this package, using the same `lake` and environment as the server. */
+    async getLakeCommand(args: string[]): Promise<{command: string, args: string[], env: NodeJS.ProcessEnv}> {
+        const projectConfig = await readProjectServerConfig(this.folderUri);
+        const toolchain = this.storageManager.getLeanPath() || toolchainPath();
+        const command = projectLakePath(projectConfig) || (toolchain ? path.join(toolchain, 'bin', 'lake') : 'lake');
+        const version = this.storageManager.getLeanVersion();
+        return { command, args: (version ? ['+' + version] : []).concat(args), env: projectServerEnv(projectConfig) };
+    }
+
+    /** The first error in the Lake configuration which prevented the server from starting, if any. */
+    getConfigurationError(): string | undefined {
+        return this.configurationErrorMessage;
+    }
+
+    private recordTransports(transports: MessageTransports): MessageTransports {
+        return tapTransports(transports, (from, msg) => this.recorder?.record(from, msg));
+    }
+
+    /** Restarts the server and records all messages exchanged with it until `stopRecording` is called. */
+    async startRecording(recorder: LspRecorder): Promise<void> {
+        this.recorder?.dispose();
+        this.recorder = recorder;
+        // restart so that the recording contains the initialization and the opening of all files.
+        await this.restart();
+    }
+
+    /** Stops the recording, returning the path of the file it was written to. */
+    stopRecording(): string | undefined {
+        const path = this.recorder?.path;
+        this.recorder?.dispose();
+        this.recorder = undefined;
+        return path;
+    }
+
+    isRecording(): boolean {
+        return this.recorder !== undefined;
+    }
+
+    /** The process id of the server, whose child processes are the `lean --worker` processes of the open files. */
+    getServerProcessId(): number | undefined {
+        return this.running ? this.serverProcess?.pid : undefined;
+    }
+
     async openLean4Document(doc: TextDocument) {
-        if (this.isOpen.has(doc.uri.toString())) return;
+        if (this.isOpen.has(doc.uri.toString())) {
+            if (this.closedWorkers.has(doc.uri.toString())) this.reopenWorker(doc);
+            return;
+        }
         if (!await this.isSameWorkspace(doc.uri)){
             // skip it, this file belongs to a different workspace...
             return;
         }
 
         this.isOpen.set(doc.uri.toString(), doc)
+        this.updateIdleTimeouts()
 
         if (!this.running) return; // there was a problem starting lean server.
 
@@ -388,14 +571,78 @@ export class LeanClient implements Disposable {
     }
 
     notifyDidOpen(doc: TextDocument) {
-        void this.client?.sendNotification(DidOpenTextDocumentNotification.type, {
+        const params: DidOpenTextDocumentParams = {
             textDocument: {
                 uri: doc.uri.toString(),
                 languageId: doc.languageId,
                 version: 1,
                 text: doc.getText(),
             },
-        });
+        };
+        void this.client?.sendNotification(DidOpenTextDocumentNotification.type, params);
+        this.didOpenEmitter.fire(params);
+    }
+
+    /**
+     * Closes the `lean --worker` process of the given document on the server while keeping the
+     * document open in the editor. The worker is started again when the document is changed
+     * or opened in an editor again.
+     */
+    closeWorker(doc: TextDocument): void {
+        const uri = doc.uri.toString()
+        if (!this.running || !this.isOpen.has(uri) || this.closedWorkers.has(uri)) return;
+        logger.log(`[LeanClient] Closing worker of file: ${uri}`)
+        this.cancelIdleTimeout(uri)
+        this.closedWorkers.add(uri)
+        void this.client?.sendNotification('textDocument/didClose', {
+            'textDocument': {
+                uri
+            }
+        })
+        // nothing is being processed anymore, the new worker will report its own progress.
+        for (const key of [...this.notifications.progress.keys()]) {
+            if (p2cConverter.asUri(key).toString() === uri) this.notifications.clearProgress(key)
+        }
+        this.progressChangedEmitter.fire([uri, []])
+        this.closedWorkerEmitter.fire(uri)
+    }
+
+    private reopenWorker(doc: TextDocument) {
+        const uri = doc.uri.toString()
+        if (!this.running || !this.closedWorkers.delete(uri)) return;
+        logger.log(`[LeanClient] Reopening worker of file: ${uri}`)
+        this.notifyDidOpen(doc)
+        this.restartedWorkerEmitter.fire(uri)
+        this.updateIdleTimeouts()
+    }
+
+    private cancelIdleTimeout(uri: string) {
+        const timeout = this.idleTimeouts.get(uri)
+        if (timeout !== undefined) {
+            clearTimeout(timeout)
+            this.idleTimeouts.delete(uri)
+        }
+    }
+
+    /** Starts closing the workers of files which are not visible, and stops it for the visible ones. */
+    private updateIdleTimeouts() {
+        const timeout = idleWorkerTimeout()
+        const visible = new Set(window.visibleTextEditors.map(e => e.document.uri.toString()))
+        for (const [uri, doc] of this.isOpen) {
+            if (timeout <= 0 || visible.has(uri) || this.closedWorkers.has(uri)) {
+                this.cancelIdleTimeout(uri)
+            } else if (!this.idleTimeouts.has(uri)) {
+                this.idleTimeouts.set(uri, setTimeout(() => {
+                    this.idleTimeouts.delete(uri)
+                    this.closeWorker(doc)
+                }, timeout * 1000))
+            }
+        }
+    }
+
+    /** Whether the worker of the given document was closed by {@link closeWorker}. */
+    isWorkerClosed(uri: string): boolean {
+        return this.closedWorkers.has(uri)
     }
 
     async isSameWorkspace(uri: Uri) : Promise<boolean> {
@@ -416,6 +663,11 @@ export class LeanClient implements Disposable {
         return false;
     }
 
+    /** The documents that this client has opened on the server. */
+    getOpenDocuments() : TextDocument[] {
+        return Array.from(this.isOpen.values());
+    }
+
     getWorkspaceFolder() : string {
         return this.folderUri?.toString();
     }
@@ -437,6 +689,7 @@ export class LeanClient implements Disposable {
 
     async stop(): Promise<void> {
         assert(() => this.isStarted())
+        this.cancelAutoRestart()
         if (this.client && this.running) {
             this.noPrompt = true;
             try {
@@ -448,8 +701,16 @@ export class LeanClient implements Disposable {
             }
         }
 
+        // vscode-languageclient only kills server processes which it started itself.
+        const proc = this.serverProcess;
+        if (proc) {
+            setTimeout(() => {
+                if (proc.exitCode === null && proc.signalCode === null) proc.kill();
+            }, serverExitTimeoutMs);
+        }
+
         this.noPrompt = false;
-        this.progress = new Map()
+        this.notifications.clear()
         this.client = undefined
         this.running = false
     }
@@ -460,6 +721,10 @@ export class LeanClient implements Disposable {
         if (this.toolchainPath !== newToolchainPath){
             void this.restart();
         }
+        if (e.affectsConfiguration('lean4.idleWorkerTimeout')) {
+            for (const uri of [...this.idleTimeouts.keys()]) this.cancelIdleTimeout(uri)
+            this.updateIdleTimeouts()
+        }
     }
 
     async restartFile(doc: TextDocument): Promise<void> {
@@ -484,20 +749,22 @@ export class LeanClient implements Disposable {
                 uri
             }
         })
-        void this.client?.sendNotification('textDocument/didOpen', {
+        const params: DidOpenTextDocumentParams = {
             'textDocument': {
                 uri,
                 'languageId': 'lean4',
                 'version': 1,
                 'text': doc.getText()
             }
-        })
+        }
+        void this.client?.sendNotification('textDocument/didOpen', params)
+        this.didOpenEmitter.fire(params)
         this.restartedWorkerEmitter.fire(uri)
     }
 
     // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
-    sendRequest(method: string, params: any) : Promise<any> {
-        return this.running && this.client ? this.client.sendRequest(method, params) :
+    sendRequest(method: string, params: any, token?: CancellationToken) : Promise<any> {
+        return this.running && this.client ? this.client.sendRequest(method, params, token) :
             new Promise<any>((_, reject)=>{ reject('Client is not running');});
     }
 
@@ -521,47 +788,4 @@ export class LeanClient implements Disposable {
     get initializeResult() : InitializeResult | undefined {
         return this.running ? this.client?.initializeResult : undefined
     }
-
-    private async checkToolchainVersion(folderUri: Uri) : Promise<Date | undefined> {
-
-        // see if we have a well known toolchain label that corresponds
-        // to a known date like 'leanprover/lean4:nightly-2022-02-01'
-        const toolchainVersion = await readLeanVersion(folderUri);
-        if (toolchainVersion) {
-            const match = /^leanprover\/lean4:nightly-(\d+)-(\d+)-(\d+)$/.exec(toolchainVersion);
-            if (match) {
-                return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
-            }
-            if (toolchainVersion === 'leanprover/lean4:stable') {
-                return new Date(2022, 2, 1);
-            }
-        }
-        return undefined;
-    }
-
-    async checkLakeVersion(executable: string, version: string) : Promise<boolean> {
-        // Check that the Lake version is high enough to support "lake serve" option.
-        const versionOptions = version ? ['+' + version, '--version'] : ['--version']
-        const start = Date.now()
-        const lakeVersion = await batchExecute(executable, versionOptions, this.folderUri?.fsPath, undefined);
-        logger.log(`[LeanClient] Ran '${executable} ${versionOptions.join(' ')}' in ${Date.now() - start} ms`);
-        const actual = this.extractVersion(lakeVersion)
-        if (actual.compare('3.0.0') > 0) {
-            return true;
-        }
-        return false;
-    }
-
-    private extractVersion(v: string | undefined) : SemVer {
-        if (!v) return new SemVer('0.0.0');
-        const prefix = 'Lake version'
-        if (v.startsWith(prefix)) v = v.slice(prefix.length).trim()
-        const pos = v.indexOf('(')
-        if (pos > 0) v = v.slice(0, pos).trim()
-        try {
-            return new SemVer(v)
-        } catch {
-            return new SemVer('0.0.0');
-        }
-    }
 }
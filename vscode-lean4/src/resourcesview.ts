@@ -0,0 +1,215 @@
+import { commands, ConfigurationChangeEvent, Disposable, EventEmitter, ThemeIcon, TreeDataProvider, TreeItem,
+    TreeItemCollapsibleState, TreeView, Uri, window, workspace } from 'vscode';
+import { LeanClient } from './leanclient';
+import { LeanClientProvider } from './utils/clientProvider';
+import { getProcessTree, isProcessInfoSupported, ProcessStats } from './utils/processInfo';
+import { resourceMonitorInterval, resourceMonitorMemoryWarningThreshold } from './config';
+import { logger } from './utils/logger';
+import { basename } from 'path';
+
+interface ProcessSample {
+    stats: ProcessStats
+    /** CPU usage in percent of one core since the previous sample, if there was one. */
+    cpu?: number
+    /** The uri of the file if this is a `lean --worker` process. */
+    uri?: string
+}
+
+type ResourcesViewNode =
+    { kind: 'server', client: LeanClient } |
+    { kind: 'process', client: LeanClient, sample: ProcessSample };
+
+function formatBytes(bytes: number): string {
+    const mb = bytes / (1024 * 1024)
+    return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${Math.round(mb)} MB`
+}
+
+function formatUsage(rss: number, cpu: number | undefined): string {
+    return cpu === undefined ? formatBytes(rss) : `${formatBytes(rss)}, ${Math.round(cpu)}% CPU`
+}
+
+function isVisible(uri: string): boolean {
+    return window.visibleTextEditors.some(e => e.document.uri.toString() === uri)
+}
+
+/**
+ * Periodically samples the memory and CPU usage of the Lean server processes and their `lean --worker`
+ * children, shows them in a tree view and warns when a server uses more memory than configured.
+ */
+export class ResourcesViewProvider implements TreeDataProvider<ResourcesViewNode>, Disposable {
+    private subscriptions: Disposable[] = [];
+    private treeView: TreeView<ResourcesViewNode>;
+    private sampleInterval?: NodeJS.Timeout;
+    private sampling = false;
+    private samples: Map<LeanClient, ProcessSample[]> = new Map();
+    // The key is the process id, the value is the CPU time and the time at which it was sampled.
+    private cpuTimes: Map<number, [number, number]> = new Map();
+    // Clients for which the memory warning was shown since they last went above the threshold.
+    private warned: Set<LeanClient> = new Set();
+
+    private treeDataChangedEmitter = new EventEmitter<ResourcesViewNode | undefined>();
+    onDidChangeTreeData = this.treeDataChangedEmitter.event;
+
+    constructor(private clientProvider: LeanClientProvider) {
+        this.treeView = window.createTreeView('lean4.resourcesView', { treeDataProvider: this });
+        if (!isProcessInfoSupported()) {
+            this.treeView.message = 'Resource usage of the Lean server is only available on Linux.';
+        }
+        this.subscriptions.push(
+            this.treeView,
+            this.treeView.onDidChangeVisibility(e => { if (e.visible) void this.sample() }),
+            workspace.onDidChangeConfiguration(e => this.configChanged(e)),
+            clientProvider.clientRemoved(client => {
+                this.samples.delete(client);
+                this.warned.delete(client);
+                this.treeDataChangedEmitter.fire(undefined);
+            }),
+            commands.registerCommand('lean4.closeHiddenWorkers', () => this.closeHiddenWorkers()),
+            commands.registerCommand('lean4.resourcesView.closeWorker', (node: ResourcesViewNode) => this.closeWorker(node)),
+        );
+        this.startSampling();
+    }
+
+    private configChanged(e: ConfigurationChangeEvent) {
+        if (e.affectsConfiguration('lean4.resourceMonitor')) {
+            this.startSampling();
+        }
+    }
+
+    private startSampling() {
+        if (this.sampleInterval !== undefined) clearInterval(this.sampleInterval);
+        this.sampleInterval = undefined;
+        if (!isProcessInfoSupported()) return;
+        this.sampleInterval = setInterval(() => {
+            // Nobody looks at the samples when the view is hidden and there is no threshold to check.
+            if (this.treeView.visible || resourceMonitorMemoryWarningThreshold() > 0) void this.sample();
+        }, Math.max(resourceMonitorInterval(), 1) * 1000);
+    }
+
+    private async sample() {
+        if (this.sampling) return;
+        this.sampling = true;
+        try {
+            const cpuTimes: Map<number, [number, number]> = new Map();
+            for (const client of this.clientProvider.getClients()) {
+                const pid = client.getServerProcessId();
+                const tree = pid !== undefined ? await getProcessTree(pid) : [];
+                const now = Date.now();
+                const docs = client.getOpenDocuments();
+                this.samples.set(client, tree.map(stats => {
+                    cpuTimes.set(stats.pid, [stats.cpuTime, now]);
+                    const previous = this.cpuTimes.get(stats.pid);
+                    const cpu = previous && now > previous[1] ?
+                        100 * (stats.cpuTime - previous[0]) / ((now - previous[1]) / 1000) : undefined;
+                    const doc = docs.find(d => stats.args.includes(d.uri.toString()));
+                    return { stats, cpu, uri: doc?.uri.toString() };
+                }));
+                this.checkMemory(client);
+            }
+            this.cpuTimes = cpuTimes;
+            this.treeDataChangedEmitter.fire(undefined);
+        } catch (e) {
+            logger.log(`[ResourcesView] failed to sample the server processes: ${e}`);
+        } finally {
+            this.sampling = false;
+        }
+    }
+
+    private getTotalMemory(client: LeanClient): number {
+        return (this.samples.get(client) ?? []).reduce((total, s) => total + s.stats.rss, 0);
+    }
+
+    private checkMemory(client: LeanClient) {
+        const threshold = resourceMonitorMemoryWarningThreshold();
+        const total = this.getTotalMemory(client);
+        if (threshold <= 0 || total < threshold * 1024 * 1024) {
+            this.warned.delete(client);
+            return;
+        }
+        if (this.warned.has(client)) return;
+        this.warned.add(client);
+        void this.showMemoryWarning(client, total);
+    }
+
+    private async showMemoryWarning(client: LeanClient, total: number) {
+        const folder = Uri.parse(client.getWorkspaceFolder());
+        const name = folder.scheme === 'untitled' ? 'untitled files' : basename(folder.fsPath);
+        const closeItem = 'Close Workers of Hidden Files';
+        const showItem = 'Show Resource Usage';
+        const item = await window.showWarningMessage(
+            `The Lean server for ${name} is using ${formatBytes(total)} of memory.`, closeItem, showItem);
+        if (item === closeItem) {
+            await this.closeHiddenWorkers(client);
+        } else if (item === showItem) {
+            await commands.executeCommand('lean4.resourcesView.focus');
+        }
+    }
+
+    /** Closes the workers of all files which are not visible in any editor. */
+    private async closeHiddenWorkers(client?: LeanClient) {
+        const clients = client ? [client] : this.clientProvider.getClients();
+        for (const c of clients) {
+            for (const doc of c.getOpenDocuments()) {
+                if (!isVisible(doc.uri.toString())) c.closeWorker(doc);
+            }
+        }
+        await this.sample();
+    }
+
+    private async closeWorker(node: ResourcesViewNode) {
+        if (node?.kind !== 'process' || !node.sample.uri) return;
+        const doc = node.client.getOpenDocuments().find(d => d.uri.toString() === node.sample.uri);
+        if (doc) {
+            node.client.closeWorker(doc);
+            await this.sample();
+        }
+    }
+
+    getTreeItem(node: ResourcesViewNode): TreeItem {
+        if (node.kind === 'server') {
+            const folder = Uri.parse(node.client.getWorkspaceFolder());
+            const samples = this.samples.get(node.client) ?? [];
+            const item = new TreeItem(folder.scheme === 'untitled' ? 'Untitled' : basename(folder.fsPath),
+                TreeItemCollapsibleState.Expanded);
+            if (!node.client.isRunning()) {
+                item.description = 'stopped';
+            } else if (samples.length > 0) {
+                const cpu = samples.some(s => s.cpu !== undefined) ?
+                    samples.reduce((total, s) => total + (s.cpu ?? 0), 0) : undefined;
+                item.description = formatUsage(this.getTotalMemory(node.client), cpu);
+            }
+            item.tooltip = folder.scheme === 'untitled' ? 'Untitled files' : folder.fsPath;
+            item.iconPath = new ThemeIcon('server-process');
+            item.contextValue = 'leanServer';
+            return item;
+        }
+
+        const { stats, cpu, uri } = node.sample;
+        let item: TreeItem;
+        if (uri) {
+            item = new TreeItem(Uri.parse(uri), TreeItemCollapsibleState.None);
+            item.contextValue = 'leanWorker';
+        } else {
+            item = new TreeItem(stats.args.slice(0, 2).map((arg, i) => i === 0 ? basename(arg) : arg).join(' '),
+                TreeItemCollapsibleState.None);
+            item.iconPath = new ThemeIcon('gear');
+            item.contextValue = 'leanProcess';
+        }
+        item.description = formatUsage(stats.rss, cpu);
+        item.tooltip = `${stats.args.join(' ')}\nprocess id ${stats.pid}`;
+        return item;
+    }
+
+    getChildren(node?: ResourcesViewNode): ResourcesViewNode[] {
+        if (!node) {
+            return this.clientProvider.getClients().map(client => ({ kind: 'server', client }));
+        }
+        if (node.kind === 'process' || !node.client.isRunning()) return [];
+        return (this.samples.get(node.client) ?? []).map(sample => ({ kind: 'process', client: node.client, sample }));
+    }
+
+    dispose(): void {
+        if (this.sampleInterval !== undefined) clearInterval(this.sampleInterval);
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
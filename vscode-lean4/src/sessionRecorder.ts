@@ -0,0 +1,120 @@
+import { commands, Disposable, Uri, window } from 'vscode';
+import { LeanClient } from './leanclient';
+import { LeanClientProvider } from './utils/clientProvider';
+import { LspRecorder, readRecording, ReplayServer } from './utils/lspRecording';
+import { TempFolder } from './utils/tempFolder';
+import { logger } from './utils/logger';
+import { readLeanVersion } from './utils/projectInfo';
+
+/**
+ * Records the LSP messages between the editor and a Lean server to a JSONL file,
+ * and replays such recordings against a stub server to reproduce infoview problems without the original project.
+ */
+export class SessionRecorder implements Disposable {
+    private subscriptions: Disposable[] = [];
+    private recordingClient?: LeanClient;
+    private tempFolders: TempFolder[] = [];
+
+    constructor(private clientProvider: LeanClientProvider) {
+        this.subscriptions.push(
+            commands.registerCommand('lean4.recordSession.start', () => this.startRecording()),
+            commands.registerCommand('lean4.recordSession.stop', () => this.stopRecording()),
+            commands.registerCommand('lean4.replaySession', () => this.replay()),
+            clientProvider.clientRemoved(client => {
+                if (client === this.recordingClient) this.setRecordingClient(undefined);
+            }),
+        );
+    }
+
+    private setRecordingClient(client: LeanClient | undefined) {
+        this.recordingClient = client;
+        void commands.executeCommand('setContext', 'lean4.isRecordingSession', client !== undefined);
+    }
+
+    private async startRecording() {
+        const client = this.clientProvider.getActiveClient();
+        if (!client) {
+            void window.showErrorMessage('There is no Lean server to record, open a Lean file first.');
+            return;
+        }
+        if (this.recordingClient) this.stopRecording();
+
+        const folder = Uri.parse(client.getWorkspaceFolder());
+        if (folder.scheme !== 'file') {
+            void window.showErrorMessage('Only sessions of files which are saved to disk can be recorded.');
+            return;
+        }
+        const target = await window.showSaveDialog({
+            defaultUri: Uri.joinPath(folder, 'lean-session.jsonl'),
+            filters: { 'LSP recordings': ['jsonl'] },
+            title: 'Record Lean Server Session',
+        });
+        if (!target) return;
+
+        const recorder = new LspRecorder(target.fsPath, {
+            time: Date.now(),
+            folder: folder.toString(),
+            toolchain: await readLeanVersion(folder) ?? undefined,
+        });
+        logger.log(`[SessionRecorder] recording ${folder} to ${target.fsPath}`);
+        this.setRecordingClient(client);
+        await client.startRecording(recorder);
+        void window.showInformationMessage(`Recording the messages of the Lean server to ${target.fsPath}. ` +
+            'Run "Lean 4: Stop Recording Session" when you are done.');
+    }
+
+    private stopRecording() {
+        const path = this.recordingClient?.stopRecording();
+        this.setRecordingClient(undefined);
+        if (path) {
+            void window.showInformationMessage(`Saved the recording of the Lean server session to ${path}.`);
+        }
+    }
+
+    private async replay() {
+        const files = await window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'LSP recordings': ['jsonl'] },
+            title: 'Replay Lean Server Session',
+        });
+        if (!files || files.length === 0) return;
+
+        const tempFolder = new TempFolder('lean4-replay');
+        this.tempFolders.push(tempFolder);
+        const folder = Uri.file(tempFolder.folder);
+        try {
+            const [header, messages] = await readRecording(files[0].fsPath, folder.toString());
+            // the lean-toolchain file makes the temporary folder the root of the replayed package.
+            tempFolder.createFile('lean-toolchain', (header.toolchain ?? 'leanprover/lean4:nightly') + '\n');
+
+            // recreate the files that were open in the recorded session.
+            const opened: Uri[] = [];
+            for (const entry of messages) {
+                const msg = entry.message as any;
+                if (entry.from !== 'client' || msg.method !== 'textDocument/didOpen') continue;
+                const uri = Uri.parse(msg.params.textDocument.uri as string);
+                if (!uri.fsPath.startsWith(folder.fsPath) || opened.some(u => u.toString() === uri.toString())) continue;
+                tempFolder.createFile(uri.fsPath.slice(folder.fsPath.length + 1), msg.params.textDocument.text as string);
+                logger.log(`[SessionRecorder] replaying ${uri}`);
+                opened.push(uri);
+            }
+            if (opened.length === 0) {
+                void window.showErrorMessage('The recording does not contain any open Lean files.');
+                return;
+            }
+
+            this.clientProvider.setReplayServer(folder, new ReplayServer(messages, folder.toString()));
+            for (const uri of opened) {
+                await window.showTextDocument(uri, { preview: false });
+            }
+        } catch (e) {
+            void window.showErrorMessage(`Could not replay ${files[0].fsPath}: ${e}`);
+        }
+    }
+
+    dispose(): void {
+        this.stopRecording();
+        for (const s of this.subscriptions) { s.dispose(); }
+        for (const f of this.tempFolders) { f.dispose(); }
+    }
+}
@@ -0,0 +1,161 @@
+import { commands, Disposable, OutputChannel, StatusBarAlignment, StatusBarItem, ThemeColor, window, workspace } from 'vscode';
+import { LeanFileProgressKind, LeanFileProgressProcessingInfo } from '@leanprover/infoview-api';
+import { LeanClient } from './leanclient';
+import { LeanClientProvider } from './utils/clientProvider';
+
+type ClientState = 'starting' | 'running' | 'stopped' | 'failed' | 'configuration error';
+
+/** Shows the state of the Lean server for the active editor in the status bar. */
+export class LeanStatusBar implements Disposable {
+    private subscriptions: Disposable[] = [];
+    private item: StatusBarItem;
+    private states: Map<LeanClient, ClientState> = new Map();
+    private clientSubscriptions: Map<LeanClient, Disposable[]> = new Map();
+    // The key is the uri of the file, the value is the latest progress the server reported for it.
+    private progress: Map<string, LeanFileProgressProcessingInfo[]> = new Map();
+
+    constructor(private clientProvider: LeanClientProvider, private outputChannel: OutputChannel) {
+        this.item = window.createStatusBarItem(StatusBarAlignment.Left, 100);
+        this.item.name = 'Lean 4';
+        this.item.command = 'lean4.statusBar.showMenu';
+        this.subscriptions.push(this.item);
+
+        for (const client of clientProvider.getClients()) {
+            this.onClientAdded(client);
+        }
+
+        this.subscriptions.push(
+            clientProvider.clientAdded(client => {
+                this.onClientAdded(client);
+                this.update();
+            }),
+            clientProvider.clientRemoved(client => {
+                this.onClientRemoved(client);
+                this.update();
+            }),
+            clientProvider.clientStopped(([client, _activeClient, _reason]) => {
+                this.states.set(client, 'stopped');
+                this.update();
+            }),
+            clientProvider.progressChanged(([uri, processing]) => {
+                this.progress.set(uri, processing);
+                if (uri === window.activeTextEditor?.document.uri.toString()) this.update();
+            }),
+            // closed files are not processed anymore, and those opened again get new progress.
+            workspace.onDidCloseTextDocument(doc => this.progress.delete(doc.uri.toString())),
+            window.onDidChangeActiveTextEditor(() => this.update()),
+            commands.registerCommand('lean4.statusBar.showMenu', () => this.showMenu()),
+        );
+        this.update();
+    }
+
+    private onClientAdded(client: LeanClient) {
+        this.states.set(client, client.isRunning() ? 'running' : 'starting');
+        this.clientSubscriptions.set(client, [
+            client.restarting(() => {
+                this.states.set(client, 'starting');
+                this.update();
+            }),
+            client.restarted(() => {
+                this.states.set(client, 'running');
+                this.forgetProgress(client);
+                this.update();
+            }),
+            client.serverFailed(() => {
+                this.states.set(client, 'failed');
+                this.update();
+            }),
+            client.configurationError(() => {
+                this.states.set(client, 'configuration error');
+                this.update();
+            }),
+        ]);
+    }
+
+    private onClientRemoved(client: LeanClient) {
+        this.clientSubscriptions.get(client)?.forEach(s => s.dispose());
+        this.clientSubscriptions.delete(client);
+        this.states.delete(client);
+        this.forgetProgress(client);
+    }
+
+    /** Forgets the progress of the files of `client`, whose server restarted or went away. */
+    private forgetProgress(client: LeanClient) {
+        for (const doc of client.getOpenDocuments()) {
+            this.progress.delete(doc.uri.toString());
+        }
+    }
+
+    private getActiveClient(): LeanClient | undefined {
+        const editor = window.activeTextEditor;
+        if (editor) {
+            const client = this.clientProvider.findClient(editor.document.uri.toString());
+            if (client) return client;
+        }
+        return this.clientProvider.getActiveClient();
+    }
+
+    /** Returns the number of lines of the active editor that the server is still elaborating. */
+    private getElaboratingLines(): number {
+        const uri = window.activeTextEditor?.document.uri.toString();
+        const processing = uri ? this.progress.get(uri) : undefined;
+        if (!processing) return 0;
+        let lines = 0;
+        for (const info of processing) {
+            if (info.kind === LeanFileProgressKind.FatalError) continue;
+            lines += info.range.end.line - info.range.start.line + 1;
+        }
+        return lines;
+    }
+
+    private update() {
+        const editor = window.activeTextEditor;
+        const client = this.getActiveClient();
+        if (!editor || editor.document.languageId !== 'lean4' || !client) {
+            this.item.hide();
+            return;
+        }
+
+        const version = client.initializeResult?.serverInfo?.version;
+        const name = version ? `Lean ${version}` : 'Lean';
+        const state = this.states.get(client) ?? (client.isRunning() ? 'running' : 'starting');
+        this.item.backgroundColor = undefined;
+        if (state === 'starting') {
+            this.item.text = `$(loading~spin) ${name}: starting`;
+        } else if (state === 'configuration error') {
+            this.item.text = `$(error) ${name}: lakefile error`;
+            this.item.backgroundColor = new ThemeColor('statusBarItem.errorBackground');
+        } else if (state === 'stopped' || state === 'failed') {
+            this.item.text = `$(error) ${name}: ${state === 'stopped' ? 'server stopped' : 'server failed to start'}`;
+            this.item.backgroundColor = new ThemeColor('statusBarItem.errorBackground');
+        } else {
+            const lines = this.getElaboratingLines();
+            if (lines > 0) {
+                this.item.text = `$(sync~spin) ${name}: elaborating ${lines} ${lines === 1 ? 'line' : 'lines'}`;
+            } else {
+                this.item.text = `$(check) ${name}`;
+            }
+        }
+        this.item.tooltip = `Lean server for ${client.getWorkspaceFolder()}: ${state}`;
+        this.item.show();
+    }
+
+    private async showMenu() {
+        const items: { label: string, run: () => Thenable<unknown> | void }[] = [
+            { label: '$(debug-restart) Restart Server', run: () => commands.executeCommand('lean4.restartServer') },
+            { label: '$(refresh) Restart File', run: () => commands.executeCommand('lean4.restartFile') },
+            { label: '$(versions) Select Toolchain', run: () => commands.executeCommand('lean4.selectToolchain') },
+            { label: '$(output) Show Server Output', run: () => this.outputChannel.show(true) },
+        ];
+        const item = await window.showQuickPick(items, { placeHolder: 'Lean 4 server' });
+        if (item) await item.run();
+    }
+
+    dispose(): void {
+        for (const s of this.subscriptions) { s.dispose(); }
+        for (const subscriptions of this.clientSubscriptions.values()) {
+            for (const s of subscriptions) { s.dispose(); }
+        }
+        this.clientSubscriptions.clear();
+    }
+}
@@ -1,20 +1,44 @@
-import { OutputChannel } from 'vscode'
+import { CancellationToken, OutputChannel } from 'vscode'
 import { spawn } from 'child_process';
 import { findProgramInPath } from '../config'
 import { logger } from './logger'
 
+export interface ExecutionResult {
+    /** `null` if the process was killed, e.g. because it was cancelled. */
+    exitCode: number | null
+    output: string
+}
+
 export async function batchExecute(
     executablePath: string,
     args: any[],
     workingDirectory: string | null,
     channel: OutputChannel | undefined): Promise<string | undefined> {
 
+    return (await batchExecuteWithExitCode(executablePath, args, workingDirectory, channel))?.output;
+}
+
+/**
+ * Like `batchExecute`, but also returns the exit code of the process.
+ * The process is killed when the given token is cancelled.
+ */
+export async function batchExecuteWithExitCode(
+    executablePath: string,
+    args: any[],
+    workingDirectory: string | null,
+    channel: Pick<OutputChannel, 'appendLine'> | undefined,
+    token?: CancellationToken,
+    env?: NodeJS.ProcessEnv): Promise<ExecutionResult | undefined> {
+
     return new Promise(function(resolve, reject){
         let output : string = '';
         let options = {}
         if (workingDirectory !== undefined) {
             options = { cwd: workingDirectory };
         }
+        if (env !== undefined) {
+            options = { ...options, env };
+        }
 
         // The mocha test framework listens to process.on('uncaughtException')
         // which is raised if spawn cannot find the command and the test automatically
@@ -34,6 +58,8 @@ export async function batchExecute(
                 return;
             }
 
+            const cancellation = token?.onCancellationRequested(() => proc.kill());
+
             proc.stdout.on('data', (line) => {
                 const s: string = line.toString();
                 if (channel) channel.appendLine(s);
@@ -48,7 +74,8 @@ export async function batchExecute(
 
             proc.on('close', (code) => {
                 logger.log(`child process exited with code ${code}`);
-                resolve(output)
+                cancellation?.dispose();
+                resolve({ exitCode: code, output })
             });
 
         } catch (e){
@@ -1,4 +1,4 @@
-import { Disposable, OutputChannel, workspace, TextDocument, commands, window, EventEmitter, Uri, languages, TextEditor } from 'vscode';
+import { Disposable, OutputChannel, workspace, TextDocument, commands, window, EventEmitter, Uri, languages, TextEditor, ProgressLocation } from 'vscode';
 import { LocalStorageService} from './localStorage'
 import { LeanInstaller, LeanVersion } from './leanInstaller'
 import { LeanpkgService } from './leanpkg';
@@ -6,8 +6,11 @@ import { LeanClient } from '../leanclient'
 import { LeanFileProgressProcessingInfo, RpcConnectParams, RpcKeepAliveParams, ServerStoppedReason } from '@leanprover/infoview-api';
 import * as path from 'path';
 import { findLeanPackageRoot } from './projectInfo';
-import { isFileInFolder } from './fsHelper';
 import { logger } from './logger'
+import { ReplayServer } from './lspRecording';
+import { findImportClosure, findStaleModules } from './imports';
+import { batchExecuteWithExitCode } from './batch';
+import { fileExists, isFileInFolder } from './fsHelper';
 import { addDefaultElanPath, getDefaultElanPath, addToolchainBinPath, isElanDisabled, isRunningTest } from '../config'
 
 // This class ensures we have one LeanClient per workspace folder.
@@ -21,6 +24,8 @@ export class LeanClientProvider implements Disposable {
     private clients: Map<string, LeanClient> = new Map();
     private pending: Map<string, boolean> = new Map();
     private testing: Map<string, boolean> = new Map();
+    /** Stub servers replaying recorded sessions, which are used instead of Lean for the folders they are registered for. */
+    private replayServers: Map<string, ReplayServer> = new Map();
     private activeClient: LeanClient | undefined = undefined;
 
     private progressChangedEmitter = new EventEmitter<[string, LeanFileProgressProcessingInfo[]]>()
@@ -52,12 +57,15 @@ export class LeanClientProvider implements Disposable {
 
         this.subscriptions.push(
             commands.registerCommand('lean4.restartFile', () => this.restartFile()),
-            commands.registerCommand('lean4.refreshFileDependencies', () => this.restartFile()),
+            commands.registerCommand('lean4.refreshFileDependencies', () => this.refreshFileDependencies()),
             commands.registerCommand('lean4.restartServer', () => this.restartActiveClient())
         );
 
         workspace.onDidOpenTextDocument((document) => this.didOpenEditor(document));
 
+        this.subscriptions.push(pkgService.serverConfigChanged((uri) => this.onServerConfigChanged(uri)));
+        this.subscriptions.push(pkgService.lakeFileChanged((uri) => this.onLakeFileChanged(uri)));
+
         workspace.onDidChangeWorkspaceFolders((event) => {
             for (const folder of event.removed) {
                 const key = this.getKeyFromUri(folder.uri);
@@ -113,6 +121,28 @@ export class LeanClientProvider implements Disposable {
         this.testing.delete(key);
     }
 
+    private async onLakeFileChanged(packageUri: Uri) {
+        const client = this.getClientForFolder(packageUri);
+        if (client?.getConfigurationError() !== undefined) {
+            // the user is fixing the lakefile that kept the server from starting, so just try again.
+            logger.log(`[ClientProvider] lakefile changed, retrying to start the server for ${packageUri}`);
+            await client.restart();
+        } else {
+            await this.installer.handleLakeFileChanged(packageUri);
+        }
+    }
+
+    private async onServerConfigChanged(packageUri: Uri) {
+        const client = this.getClientForFolder(packageUri);
+        if (!client || !client.isStarted()) return;
+        const restartItem = 'Restart Lean Server';
+        const item = await window.showInformationMessage(
+            `The Lean server configuration in ${packageUri.fsPath} has changed.`, restartItem);
+        if (item === restartItem) {
+            await client.restart();
+        }
+    }
+
     private async onPromptingInstall(uri: Uri) : Promise<void> {
         if (isRunningTest()){
             // no prompt, just do it!
@@ -143,6 +173,61 @@ export class LeanClientProvider implements Disposable {
         }
     }
 
+    /** Builds the modules imported by the active file whose `.olean` files are out of date, then restarts the file. */
+    private async refreshFileDependencies() {
+        const editor = window.activeTextEditor;
+        const client = editor ? this.findClient(editor.document.uri.toString()) : null;
+        if (!editor || !client) return;
+        const doc = editor.document;
+        const folder = Uri.parse(client.getWorkspaceFolder());
+        if (folder.scheme !== 'file' || !await fileExists(path.join(folder.fsPath, 'lakefile.lean'))) {
+            // without Lake the server rebuilds the imports itself when the file is restarted.
+            await client.restartFile(doc);
+            return;
+        }
+
+        const stale = await findStaleModules(folder.fsPath, await findImportClosure(folder.fsPath, doc.getText()));
+        logger.log(`[ClientProvider] stale imports of ${doc.uri}: ${stale.map(m => m.name).join(', ')}`);
+        if (stale.length > 0 && !await this.buildModules(client, folder, stale.map(m => m.name), path.basename(doc.fileName))) {
+            return;
+        }
+        await client.restartFile(doc);
+    }
+
+    /** Runs `lake build` for the given modules, showing its output in a progress notification. */
+    private async buildModules(client: LeanClient, folder: Uri, modules: string[], fileName: string): Promise<boolean> {
+        const { command, args, env } = await client.getLakeCommand(['build', ...modules.map(m => '+' + m)]);
+        this.outputChannel.appendLine(`> ${command} ${args.join(' ')}`);
+        const result = await window.withProgress({
+            location: ProgressLocation.Notification,
+            title: `Building ${modules.length} ${modules.length === 1 ? 'import' : 'imports'} of ${fileName}`,
+            cancellable: true,
+        }, async (progress, token) => {
+            const channel = {
+                appendLine: (value: string) => {
+                    this.outputChannel.appendLine(value);
+                    const lastLine = value.trim().split(/\r?\n/).pop();
+                    if (lastLine) progress.report({ message: lastLine });
+                }
+            };
+            const result = await batchExecuteWithExitCode(command, args, folder.fsPath, channel, token, env);
+            return token.isCancellationRequested ? 'cancelled' : result;
+        });
+
+        if (result === 'cancelled') {
+            return false;
+        } else if (!result) {
+            void window.showErrorMessage(`Could not run '${command}' to build the imports of ${fileName}.`);
+            return false;
+        } else if (result.exitCode !== 0) {
+            const showItem = 'Show Output';
+            const item = await window.showErrorMessage(`Building the imports of ${fileName} failed.`, showItem);
+            if (item === showItem) this.outputChannel.show(true);
+            return false;
+        }
+        return true;
+    }
+
     private restartActiveClient() {
         void this.activeClient?.restart();
     }
@@ -256,6 +341,11 @@ export class LeanClientProvider implements Disposable {
         return versionInfo;
     }
 
+    /** Makes the client for the given folder talk to the replay server rather than start a Lean server. */
+    setReplayServer(folder: Uri, server: ReplayServer) {
+        this.replayServers.set(this.getKeyFromUri(folder), server);
+    }
+
     // Starts a LeanClient if the given file is in a new workspace we haven't seen before.
     // Returns a boolean "true" if the LeanClient was already created.
     // Returns a null client if it turns out the new workspace is a lean3 workspace.
@@ -280,11 +370,15 @@ export class LeanClientProvider implements Disposable {
             // every open file.  A workspace could have multiple files open and we want
             // to remember all those open files are associated with this client before
             // testLeanVersion has completed.
-            client = new LeanClient(workspaceFolder, folderUri, this.localStorage, this.outputChannel);
+            const replayServer = this.replayServers.get(key);
+            client = new LeanClient(workspaceFolder, folderUri, this.localStorage, this.outputChannel, replayServer);
             this.subscriptions.push(client);
             this.clients.set(key, client);
 
-            if (!versionInfo) {
+            if (replayServer) {
+                // the replayed session does not need a Lean installation.
+                versionInfo = { version: '4', error: undefined };
+            } else if (!versionInfo) {
                 versionInfo = await this.getLeanVersion(folderUri);
             }
             if (versionInfo && versionInfo.version && versionInfo.version !== '4') {
@@ -305,6 +399,14 @@ export class LeanClientProvider implements Disposable {
                 void window.showErrorMessage(err);
             });
 
+            client.configurationError(async (err) => {
+                const showItem = 'Show Lakefile';
+                const item = await window.showErrorMessage(`Lean server could not be started because of errors in the Lake configuration: ${err}`, showItem);
+                if (item === showItem && folderUri.scheme === 'file') {
+                    await window.showTextDocument(Uri.joinPath(folderUri, 'lakefile.lean'));
+                }
+            });
+
             client.stopped(reason => {
                 if (client) {
                     // fires a message in case a client is stopped unexpectedly
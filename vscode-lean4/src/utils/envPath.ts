@@ -0,0 +1,17 @@
+import * as path from 'path';
+
+/** The key of the search path in process environments. */
+export const envPathKey = process.platform === 'win32' ? 'Path' : 'PATH';
+
+/**
+ * Returns a copy of `env` with the key/value pairs of `envVars`, whose search path starts with `paths`.
+ * Neither `env` nor the environment of this process are changed, so that every server can get its own paths.
+ */
+export function extendEnv(env: NodeJS.ProcessEnv, envVars: object, paths: string[]): NodeJS.ProcessEnv {
+    const result: NodeJS.ProcessEnv = Object.assign({}, env, envVars);
+    if (paths.length !== 0) {
+        const searchPath = result[envPathKey];
+        result[envPathKey] = (searchPath ? [...paths, searchPath] : paths).join(path.delimiter);
+    }
+    return result;
+}
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import { join } from 'path';
+
+/** A module of the package, e.g. `Foo.Bar` in `Foo/Bar.lean`. */
+export interface PackageModule {
+    name: string
+    /** The path of the `.lean` file. */
+    path: string
+    /** The modules of the package it imports directly. */
+    imports: string[]
+}
+
+/** Returns the names of the modules imported in the header of a Lean 4 file. */
+export function parseImports(text: string): string[] {
+    const imports: string[] = [];
+    const lines = text.replace(/\/-[^]*?-\//g, ' ').replace(/--.*$/gm, '').split(/\r?\n/);
+    // the header ends at the first command that is not `prelude` or `import`.
+    for (const line of lines.map(l => l.trim())) {
+        if (line === '' || line === 'prelude') continue;
+        const match = /^import\s+(.*)$/.exec(line);
+        if (!match) break;
+        // `import Foo Bar` imports both modules, and names in `«»` may contain spaces.
+        const names = match[1].match(/(?:«[^»]*»|[^\s«])+/g) ?? [];
+        imports.push(...names.map(m => m.replace(/[«»]/g, '')));
+    }
+    return imports;
+}
+
+function modulePath(packagePath: string, name: string): string {
+    return join(packagePath, ...name.split('.')) + '.lean';
+}
+
+/**
+ * Computes the modules of the package which are imported by the given file, directly or indirectly.
+ * Imports of modules which are not part of the package, e.g. of `Init` or of dependencies, are ignored.
+ */
+export async function findImportClosure(packagePath: string, text: string): Promise<PackageModule[]> {
+    const result: Map<string, PackageModule> = new Map();
+    const queue = parseImports(text);
+    while (queue.length > 0) {
+        const name = queue.shift() as string;
+        if (result.has(name)) continue;
+        const path = modulePath(packagePath, name);
+        let contents: string;
+        try {
+            contents = await fs.promises.readFile(path, { encoding: 'utf-8' });
+        } catch {
+            continue;
+        }
+        const imports = parseImports(contents);
+        result.set(name, { name, path, imports });
+        queue.push(...imports);
+    }
+    // only keep the imports within the package, so that the result is closed under imports.
+    for (const mod of result.values()) {
+        mod.imports = mod.imports.filter(i => result.has(i));
+    }
+    return [...result.values()];
+}
+
+async function modifiedTime(path: string): Promise<number | undefined> {
+    try {
+        return (await fs.promises.stat(path)).mtimeMs;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Returns the modules whose `.olean` file is missing or older than their source, or than the `.olean` of one of their imports.
+ * The result is ordered such that modules come after their imports.
+ */
+export async function findStaleModules(packagePath: string, modules: PackageModule[]): Promise<PackageModule[]> {
+    const buildDirs = [join(packagePath, 'build', 'lib'), join(packagePath, '.lake', 'build', 'lib')];
+    const byName = new Map(modules.map(m => [m.name, m]));
+    // the key is the module name, the value is the time of its .olean, or undefined if it needs to be rebuilt.
+    const oleanTimes: Map<string, number | undefined> = new Map();
+    const stale: PackageModule[] = [];
+
+    const visit = async (mod: PackageModule): Promise<number | undefined> => {
+        if (oleanTimes.has(mod.name)) return oleanTimes.get(mod.name);
+        oleanTimes.set(mod.name, undefined); // guards against import cycles
+        let isStale = false;
+        let newestImport = 0;
+        for (const i of mod.imports) {
+            const imported = byName.get(i);
+            if (!imported) continue;
+            const time = await visit(imported);
+            if (time === undefined) isStale = true;
+            else newestImport = Math.max(newestImport, time);
+        }
+        let oleanTime: number | undefined;
+        for (const dir of buildDirs) {
+            oleanTime ??= await modifiedTime(join(dir, ...mod.name.split('.')) + '.olean');
+        }
+        const sourceTime = await modifiedTime(mod.path) ?? 0;
+        if (oleanTime === undefined || oleanTime < sourceTime || oleanTime < newestImport) isStale = true;
+        const result = isStale ? undefined : oleanTime;
+        oleanTimes.set(mod.name, result);
+        if (isStale) stale.push(mod);
+        return result;
+    };
+
+    for (const mod of modules) await visit(mod);
+    return stale;
+}
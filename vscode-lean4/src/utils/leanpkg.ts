@@ -2,9 +2,10 @@ import { EventEmitter, Disposable, Uri, workspace, window, WorkspaceFolder } fro
 import { findLeanPackageRoot, findLeanPackageVersionInfo } from './projectInfo';
 import * as path from 'path';
 import { fileExists } from './fsHelper';
+import { projectServerConfigFileName } from './projectConfig';
 
 // This service monitors the Lean package root folders for changes to any
-// lean-toolchain, leanpkg.toml or lakefile.lean files found there.
+// lean-toolchain, leanpkg.toml, lakefile.lean or lean-server.json files found there.
 export class LeanpkgService implements Disposable {
     private subscriptions: Disposable[] = [];
     private lakeFileName : string = 'lakefile.lean'
@@ -12,6 +13,7 @@ export class LeanpkgService implements Disposable {
     // The key to these maps is the Lean package root Uri.
     private currentVersion : Map<string,string> = new Map();
     private normalizedLakeFileContents : Map<string,string> = new Map();
+    private normalizedServerConfigContents : Map<string,string> = new Map();
 
     // This event is raised when the version in the package root changes.
     // The event provides the lean package root Uri.
@@ -23,6 +25,11 @@ export class LeanpkgService implements Disposable {
     private lakeFileChangedEmitter = new EventEmitter<Uri>();
     lakeFileChanged = this.lakeFileChangedEmitter.event
 
+    // This event is raised if the server configuration file of a package is created, changed or deleted.
+    // The event provides the lean package root Uri.
+    private serverConfigChangedEmitter = new EventEmitter<Uri>();
+    serverConfigChanged = this.serverConfigChangedEmitter.event
+
     constructor() {
 
         // track changes in the version of lean specified in the lean-toolchain file
@@ -41,6 +48,12 @@ export class LeanpkgService implements Disposable {
             watcher2.onDidDelete((u) => this.handleLakeFileChanged(u, true));
             this.subscriptions.push(watcher);
         });
+
+        const configWatcher = workspace.createFileSystemWatcher(`**/${projectServerConfigFileName}`);
+        configWatcher.onDidChange((u) => this.handleServerConfigChanged(u, true));
+        configWatcher.onDidCreate((u) => this.handleServerConfigChanged(u, true));
+        configWatcher.onDidDelete((u) => this.handleServerConfigChanged(u, true));
+        this.subscriptions.push(configWatcher);
     }
 
     dispose(): void {
@@ -60,6 +73,9 @@ export class LeanpkgService implements Disposable {
         else if (fileName === 'leanpkg.toml'){
             void  this.handleFileChanged(uri, false);
         }
+        else if (fileName === projectServerConfigFileName){
+            void this.handleServerConfigChanged(uri, false);
+        }
     }
 
     private async handleLakeFileChanged(uri : Uri, raiseEvent : boolean)  {
@@ -87,6 +103,21 @@ export class LeanpkgService implements Disposable {
         }
     }
 
+    private async handleServerConfigChanged(uri : Uri, raiseEvent : boolean) {
+        const [workspaceFolder, packageUri, packageFileUri] = await findLeanPackageRoot(uri);
+        // ignore files which are not in the package root.
+        if (!packageUri || packageUri.toString() !== Uri.joinPath(uri, '..').toString()) return;
+        const key = packageUri.toString();
+        // a deleted file reads as empty contents.
+        const contents = await this.readWhitespaceNormalized(uri);
+        if (contents !== (this.normalizedServerConfigContents.get(key) ?? '')) {
+            this.normalizedServerConfigContents.set(key, contents);
+            if (raiseEvent) {
+                this.serverConfigChangedEmitter.fire(packageUri);
+            }
+        }
+    }
+
     private async handleFileChanged(uri: Uri, raiseEvent : boolean) {
         // note: apply the same rules here with findLeanPkgVersionInfo no matter
         // if a file is added or removed so we always match the elan behavior.
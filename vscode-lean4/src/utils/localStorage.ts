@@ -4,6 +4,7 @@
 // https://www.chrishasz.com/blog/2020/07/28/vscode-how-to-use-local-storage-api/
 
 import { Memento } from 'vscode';
+import { InfoviewPin } from '@leanprover/infoview-api';
 
 export class LocalStorageService {
 
@@ -28,4 +29,24 @@ export class LocalStorageService {
     {
         void this.storage.update('LeanVersion', path);
     }
+
+    getInfoviewPins() : InfoviewPin[]
+    {
+        return this.storage.get<InfoviewPin[]>('InfoviewPins', []);
+    }
+
+    setInfoviewPins(pins : InfoviewPin[]) : void
+    {
+        void this.storage.update('InfoviewPins', pins);
+    }
+
+    getAbbreviationUsageCounts() : {[symbol: string]: number}
+    {
+        return this.storage.get<{[symbol: string]: number}>('AbbreviationUsageCounts', {});
+    }
+
+    setAbbreviationUsageCounts(counts : {[symbol: string]: number}) : void
+    {
+        void this.storage.update('AbbreviationUsageCounts', counts);
+    }
 }
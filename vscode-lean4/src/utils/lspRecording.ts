@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import {
+    AbstractMessageReader, AbstractMessageWriter, DataCallback, Disposable, Message, MessageReader,
+    MessageWriter, NotificationMessage, RequestMessage, ResponseMessage
+} from 'vscode-languageserver-protocol/node';
+import { MessageTransports } from 'vscode-languageclient';
+import { logger } from './logger';
+
+/** The first line of a recording. */
+export interface RecordingHeader {
+    time: number;
+    /** The uri of the folder of the recorded Lean server. */
+    folder: string;
+    /** The contents of the `lean-toolchain` file of that folder, if any. */
+    toolchain?: string;
+}
+
+/** Any other line of a recording. */
+export interface RecordedMessage {
+    time: number;
+    from: 'client' | 'server';
+    message: Message;
+}
+
+/** Writes every message sent between the client and the Lean server to a JSONL file. */
+export class LspRecorder implements Disposable {
+    private stream: fs.WriteStream;
+    /** Resolves once the file is closed after {@link dispose}, i.e. when all recorded messages are written. */
+    readonly closed: Promise<void>;
+
+    constructor(readonly path: string, header: RecordingHeader) {
+        this.stream = fs.createWriteStream(path, { encoding: 'utf8' });
+        this.stream.on('error', e => logger.log(`[LspRecorder] failed to write ${path}: ${e}`));
+        this.closed = new Promise(resolve => this.stream.on('close', () => resolve()));
+        this.stream.write(JSON.stringify(header) + '\n');
+    }
+
+    record(from: 'client' | 'server', message: Message) {
+        const entry: RecordedMessage = { time: Date.now(), from, message };
+        this.stream.write(JSON.stringify(entry) + '\n');
+    }
+
+    dispose() {
+        this.stream.end();
+    }
+}
+
+/** Calls `onMessage` on every message read from or written to the given transports. */
+export function tapTransports(transports: MessageTransports, onMessage: (from: 'client' | 'server', msg: Message) => void): MessageTransports {
+    const reader = transports.reader;
+    const writer = transports.writer;
+    const tappedReader: MessageReader = {
+        onError: reader.onError,
+        onClose: reader.onClose,
+        onPartialMessage: reader.onPartialMessage,
+        listen: (callback: DataCallback) => reader.listen(msg => {
+            onMessage('server', msg);
+            callback(msg);
+        }),
+        dispose: () => reader.dispose(),
+    };
+    const tappedWriter: MessageWriter = {
+        onError: writer.onError,
+        onClose: writer.onClose,
+        write: (msg: Message) => {
+            onMessage('client', msg);
+            return writer.write(msg);
+        },
+        end: () => writer.end(),
+        dispose: () => writer.dispose(),
+    };
+    return { reader: tappedReader, writer: tappedWriter, detached: transports.detached };
+}
+
+/**
+ * Replaces the folder uri `from` by `to` in the strings contained in the JSON `value`, where it is not continued
+ * by more characters of a file name, so that e.g. `file:///proj` does not change `file:///proj2/Main.lean`.
+ */
+function replaceFolderUri(value: unknown, from: string, to: string): unknown {
+    const folderUri = new RegExp(from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') + '(?![\\w.~%+-])', 'g');
+    const replace = (v: unknown): unknown => {
+        if (typeof v === 'string') return v.replace(folderUri, () => to);
+        if (Array.isArray(v)) return v.map(replace);
+        if (typeof v === 'object' && v !== null) {
+            const result: { [key: string]: unknown } = {};
+            for (const [k, w] of Object.entries(v)) result[k] = replace(w);
+            return result;
+        }
+        return v;
+    };
+    return replace(value);
+}
+
+/** Like `JSON.stringify`, but independent of the order of the keys of objects. */
+function stableStringify(value: any): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value instanceof Object) {
+        const keys = Object.keys(value as {}).sort();
+        return `{${keys.map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Reads a recording written by {@link LspRecorder}, replacing the recorded folder uri in all messages by `folder`
+ * so that the messages refer to the files of the replayed session.
+ */
+export async function readRecording(path: string, folder?: string): Promise<[RecordingHeader, RecordedMessage[]]> {
+    const lines = (await fs.promises.readFile(path, { encoding: 'utf8' })).split('\n').filter(l => l.trim().length > 0);
+    if (lines.length === 0) throw new Error(`${path} is empty`);
+    const header = JSON.parse(lines[0]) as RecordingHeader;
+    if (typeof header.folder !== 'string') throw new Error(`${path} is not a recording of Lean server messages`);
+    const messages = lines.slice(1).map(l => JSON.parse(l) as RecordedMessage);
+    if (folder === undefined) return [header, messages];
+    return [header, messages.map(m => replaceFolderUri(m, header.folder, folder) as RecordedMessage)];
+}
+
+class ReplayMessageReader extends AbstractMessageReader {
+    private callback?: DataCallback;
+
+    listen(callback: DataCallback): Disposable {
+        this.callback = callback;
+        return { dispose: () => { this.callback = undefined } };
+    }
+
+    send(msg: Message) {
+        this.callback?.(msg);
+    }
+
+    close() {
+        this.fireClose();
+    }
+}
+
+class ReplayMessageWriter extends AbstractMessageWriter {
+    constructor(private onWrite: (msg: Message) => void) {
+        super();
+    }
+
+    write(msg: Message): Promise<void> {
+        this.onWrite(msg);
+        return Promise.resolve();
+    }
+
+    end(): void {}
+}
+
+/**
+ * A stub Lean server which answers requests with the responses recorded for the same request,
+ * and sends the recorded notifications of the server with their original timing.
+ */
+export class ReplayServer implements Disposable {
+    // The key identifies a request across sessions (see `getKey`), the value are the recorded responses to it.
+    private responses: Map<string, ResponseMessage[]> = new Map();
+    private initializeResponse?: ResponseMessage;
+    private notifications: RecordedMessage[] = [];
+    private initializedTime?: number;
+    private timeouts: NodeJS.Timeout[] = [];
+
+    /**
+     * @param messages the recorded messages, read by {@link readRecording} with the replayed `folder`.
+     * @param folder the uri of the folder of the replayed session.
+     */
+    constructor(messages: RecordedMessage[], private readonly folder: string) {
+        const pending = new Map<number | string, RequestMessage>();
+        for (const entry of messages) {
+            const msg = entry.message as any;
+            if (entry.from === 'client' && msg.id !== undefined && msg.method !== undefined) {
+                pending.set(msg.id as number | string, msg as RequestMessage);
+            } else if (entry.from === 'client' && msg.method === 'initialized') {
+                this.initializedTime ??= entry.time;
+            } else if (entry.from === 'server' && msg.id !== undefined && msg.method === undefined) {
+                const request = pending.get(msg.id as number | string);
+                if (!request) continue;
+                pending.delete(request.id as number | string);
+                if (request.method === 'initialize') {
+                    this.initializeResponse ??= msg as ResponseMessage;
+                    continue;
+                }
+                const key = this.getKey(request);
+                this.responses.set(key, (this.responses.get(key) ?? []).concat([msg as ResponseMessage]));
+            } else if (entry.from === 'server' && msg.id === undefined) {
+                this.notifications.push(entry);
+            }
+        }
+    }
+
+    /**
+     * Only the method, the file relative to the folder, the position and the method and parameters of RPC calls
+     * identify a request: everything else, like the RPC session or the capabilities of the client,
+     * differs between the recorded and the replayed session.
+     */
+    private getKey(request: RequestMessage): string {
+        const params = (request.params ?? {}) as any;
+        const uri = params.textDocument?.uri ?? params.uri;
+        return stableStringify([
+            request.method,
+            typeof uri === 'string' && uri.startsWith(this.folder) ? uri.slice(this.folder.length) : uri,
+            params.position,
+            request.method === '$/lean/rpc/call' ? [params.method, params.params] : undefined,
+        ]);
+    }
+
+    /** Returns the transports which a `LanguageClient` uses to talk to this server. */
+    connect(): MessageTransports {
+        const reader = new ReplayMessageReader();
+        const writer = new ReplayMessageWriter(msg => this.handle(msg, reader));
+        return { reader, writer };
+    }
+
+    private handle(msg: Message, reader: ReplayMessageReader) {
+        const m = msg as any;
+        if (m.method === 'initialized') {
+            this.replayNotifications(reader);
+        } else if (m.method === 'exit') {
+            this.dispose();
+            reader.close();
+        } else if (m.method === 'initialize') {
+            // the parameters, like the process id and the root of the client, are specific to the session.
+            this.answer(reader, m as RequestMessage, this.initializeResponse);
+        } else if (m.method === 'shutdown') {
+            reader.send({ jsonrpc: '2.0', id: m.id, result: null } as ResponseMessage);
+        } else if (m.id !== undefined && m.method !== undefined) {
+            const responses = this.responses.get(this.getKey(m as RequestMessage));
+            // answer repeated requests with the last recorded response.
+            this.answer(reader, m as RequestMessage, responses && responses.length > 1 ? responses.shift() : responses?.[0]);
+        }
+        // other notifications from the client do not influence the recording.
+    }
+
+    private answer(reader: ReplayMessageReader, request: RequestMessage, response: ResponseMessage | undefined) {
+        if (response) {
+            reader.send({ ...response, id: request.id } as ResponseMessage);
+        } else {
+            logger.log(`[ReplayServer] no recorded response to ${request.method}`);
+            reader.send({
+                jsonrpc: '2.0',
+                id: request.id,
+                error: { code: -32603, message: `No response to '${request.method}' at this position in the recording` },
+            } as ResponseMessage);
+        }
+    }
+
+    private replayNotifications(reader: ReplayMessageReader) {
+        const start = this.initializedTime ?? this.notifications[0]?.time ?? 0;
+        for (const entry of this.notifications) {
+            this.timeouts.push(setTimeout(() => reader.send(entry.message as NotificationMessage),
+                Math.max(0, entry.time - start)));
+        }
+    }
+
+    dispose() {
+        for (const t of this.timeouts) clearTimeout(t);
+        this.timeouts = [];
+    }
+}
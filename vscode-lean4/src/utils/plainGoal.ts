@@ -0,0 +1,44 @@
+import { CancellationToken, Position, Range, TextDocument } from 'vscode';
+import { PlainGoal } from '@leanprover/infoview-api';
+import { LeanClient } from '../leanclient';
+import { c2pConverter } from './converters';
+import { findTactics } from './tactics';
+
+/** Requests the goals at the given position, `undefined` if there are none there, e.g. outside of tactic blocks. */
+export async function requestPlainGoal(client: LeanClient, document: TextDocument, position: Position,
+        token?: CancellationToken): Promise<PlainGoal | undefined> {
+    try {
+        const goal: PlainGoal | null = await client.sendRequest('$/lean/plainGoal',
+            c2pConverter.asTextDocumentPositionParams(document, position), token);
+        return goal ?? undefined;
+    } catch {
+        // e.g. the server is not running or the file was changed in the meantime.
+        return undefined;
+    }
+}
+
+/** The number of lines that are searched around a line for the declaration it belongs to. */
+const maxDeclarationLines = 1000;
+
+function startsDeclaration(text: string): boolean {
+    return /^\S/.test(text) && !text.startsWith('--') && !text.startsWith('/-');
+}
+
+/**
+ * Returns the ranges of the tactics that overlap the given lines, see `findTactics`.
+ * The server returns the goals before a tactic at its start, and the ones after it at its end.
+ */
+export function tacticsInLines(document: TextDocument, startLine: number, endLine: number): Range[] {
+    // the lines are scanned from the start of their declaration until they and their last tactic end.
+    let first = startLine;
+    while (first > 0 && startLine - first < maxDeclarationLines && !startsDeclaration(document.lineAt(first).text)) first--;
+    let last = endLine;
+    while (last + 1 < document.lineCount && last - endLine < maxDeclarationLines &&
+        !startsDeclaration(document.lineAt(last + 1).text)) last++;
+
+    const lines: string[] = [];
+    for (let line = first; line <= last; line++) lines.push(document.lineAt(line).text);
+    return findTactics(lines, first)
+        .filter(tactic => tactic.end.line >= startLine && tactic.start.line <= endLine)
+        .map(({ start, end }) => new Range(start.line, start.character, end.line, end.character));
+}
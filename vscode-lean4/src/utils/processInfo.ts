@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import { join } from 'path';
+
+/** Number of clock ticks per second in which `/proc/<pid>/stat` reports CPU times (`USER_HZ`). */
+const clockTicksPerSecond = 100
+
+export interface ProcessStats {
+    pid: number
+    ppid: number
+    /** The command line of the process. */
+    args: string[]
+    /** Resident set size in bytes. */
+    rss: number
+    /** User and system CPU time consumed so far, in seconds. */
+    cpuTime: number
+}
+
+/** Whether {@link getProcessTree} can report anything on this platform. */
+export function isProcessInfoSupported(): boolean {
+    return process.platform === 'linux'
+}
+
+async function readProcessStat(pid: number): Promise<{ppid: number, cpuTime: number} | undefined> {
+    try {
+        const stat = await fs.promises.readFile(join('/proc', pid.toString(), 'stat'), 'utf8')
+        // The command name is in parentheses and may itself contain spaces and parentheses.
+        const fields = stat.substring(stat.lastIndexOf(')') + 2).split(' ')
+        // `fields[0]` is field 3 (state) in proc(5).
+        const ppid = parseInt(fields[1])
+        const cpuTicks = parseInt(fields[11]) + parseInt(fields[12])
+        return { ppid, cpuTime: cpuTicks / clockTicksPerSecond }
+    } catch {
+        // the process exited in the meantime
+        return undefined
+    }
+}
+
+async function readProcessStats(pid: number, ppid: number, cpuTime: number): Promise<ProcessStats | undefined> {
+    try {
+        const dir = join('/proc', pid.toString())
+        const status = await fs.promises.readFile(join(dir, 'status'), 'utf8')
+        const rssMatch = /^VmRSS:\s*(\d+)\s*kB/m.exec(status)
+        const rss = rssMatch ? parseInt(rssMatch[1]) * 1024 : 0
+
+        const cmdline = await fs.promises.readFile(join(dir, 'cmdline'), 'utf8')
+        const args = cmdline.split('\0').filter(arg => arg.length > 0)
+
+        return { pid, ppid, args, rss, cpuTime }
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Returns the statistics of the given process and all of its descendants,
+ * or an empty array if the process does not exist or the platform is not supported.
+ */
+export async function getProcessTree(rootPid: number): Promise<ProcessStats[]> {
+    if (!isProcessInfoSupported()) return []
+
+    const stats = new Map<number, {ppid: number, cpuTime: number}>()
+    const children = new Map<number, number[]>()
+    for (const name of await fs.promises.readdir('/proc')) {
+        if (!/^\d+$/.test(name)) continue
+        const pid = parseInt(name)
+        const stat = await readProcessStat(pid)
+        if (!stat) continue
+        stats.set(pid, stat)
+        const siblings = children.get(stat.ppid)
+        if (siblings) siblings.push(pid)
+        else children.set(stat.ppid, [pid])
+    }
+    if (!stats.has(rootPid)) return []
+
+    const result: ProcessStats[] = []
+    const todo: number[] = [rootPid]
+    while (todo.length > 0) {
+        const pid = todo.pop() as number
+        const stat = stats.get(pid)
+        const processStats = stat && await readProcessStats(pid, stat.ppid, stat.cpuTime)
+        if (processStats) result.push(processStats)
+        todo.push(...(children.get(pid) ?? []))
+    }
+    return result
+}
@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import { Uri, window } from 'vscode';
+import { addServerEnvPaths, getElaborationDelay, lakePath, serverArgs, serverEnv, serverEnvPaths } from '../config';
+import { findLeanPackageRoot } from './projectInfo';
+import { logger } from './logger';
+
+/** The name of the file in a Lean package root, next to `lean-toolchain`, which overrides the server settings for that package. */
+export const projectServerConfigFileName = 'lean-server.json';
+
+/**
+ * The settings of the Lean server which a package can override, see `projectServerConfigFileName`.
+ * Missing values are taken from the VS Code settings of the same name.
+ */
+export interface ProjectServerConfig {
+    serverArgs?: string[];
+    serverEnv?: {[key: string]: string};
+    serverEnvPaths?: string[];
+    elaborationDelay?: number;
+    lakePath?: string;
+}
+
+function isStringArray(value: any): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function isStringRecord(value: any): value is {[key: string]: string} {
+    return value instanceof Object && !Array.isArray(value) && Object.values(value as {}).every(v => typeof v === 'string');
+}
+
+function parseProjectServerConfig(json: any): [ProjectServerConfig, string[]] {
+    const config: ProjectServerConfig = {};
+    const errors: string[] = [];
+    if (!(json instanceof Object) || Array.isArray(json)) return [config, ['expected a JSON object']];
+    for (const [key, value] of Object.entries(json as {[key: string]: any})) {
+        if ((key === 'serverArgs' || key === 'serverEnvPaths') && isStringArray(value)) {
+            config[key] = value;
+        } else if (key === 'serverEnv' && isStringRecord(value)) {
+            config.serverEnv = value;
+        } else if (key === 'elaborationDelay' && typeof value === 'number') {
+            config.elaborationDelay = value;
+        } else if (key === 'lakePath' && typeof value === 'string') {
+            config.lakePath = value;
+        } else {
+            errors.push(`invalid setting '${key}'`);
+        }
+    }
+    return [config, errors];
+}
+
+/**
+ * Reads the server settings of the Lean package containing the given uri.
+ * Problems with the file are shown to the user, and the settings concerned are ignored.
+ */
+export async function readProjectServerConfig(uri: Uri): Promise<ProjectServerConfig> {
+    const [_, packageUri] = await findLeanPackageRoot(uri);
+    if (!packageUri || packageUri.scheme !== 'file') return {};
+
+    const configUri = Uri.joinPath(packageUri, projectServerConfigFileName);
+    let contents: string;
+    try {
+        contents = await fs.promises.readFile(configUri.fsPath, { encoding: 'utf-8' });
+    } catch {
+        // most packages do not have one.
+        return {};
+    }
+
+    let config: ProjectServerConfig;
+    let errors: string[];
+    try {
+        [config, errors] = parseProjectServerConfig(JSON.parse(contents));
+    } catch (e) {
+        [config, errors] = [{}, [`${e}`]];
+    }
+    if (errors.length > 0) {
+        logger.log(`[ProjectConfig] problems in ${configUri.fsPath}: ${errors.join(', ')}`);
+        void window.showWarningMessage(`Ignoring ${errors.join(', ')} in ${configUri.fsPath}.`);
+    }
+    return config;
+}
+
+export function projectServerArgs(config: ProjectServerConfig): string[] {
+    return config.serverArgs ?? serverArgs();
+}
+
+export function projectElaborationDelay(config: ProjectServerConfig): number {
+    return config.elaborationDelay ?? getElaborationDelay();
+}
+
+export function projectLakePath(config: ProjectServerConfig): string {
+    return config.lakePath ?? lakePath();
+}
+
+/** The environment of the server, where `serverEnv` and `serverEnvPaths` of the package replace the VS Code settings. */
+export function projectServerEnv(config: ProjectServerConfig): NodeJS.ProcessEnv {
+    return addServerEnvPaths(process.env, config.serverEnv ?? serverEnv(), config.serverEnvPaths ?? serverEnvPaths());
+}
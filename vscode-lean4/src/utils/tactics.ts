@@ -0,0 +1,117 @@
+/** A position in a file, counted from zero in UTF-16 code units like in the LSP. */
+export interface TextPosition {
+    line: number;
+    character: number;
+}
+
+/** The range of a tactic, from its first character to the one after its last. */
+export interface TacticRange {
+    start: TextPosition;
+    end: TextPosition;
+}
+
+const identifierCharacter = /[\p{L}\p{N}_'!?.]/u;
+const openingBrackets = '([{⟨';
+const closingBrackets = ')]}⟩';
+
+function isKeyword(text: string, index: number, keyword: string): boolean {
+    return text.startsWith(keyword, index) &&
+        !identifierCharacter.test(text[index - 1] ?? ' ') &&
+        !identifierCharacter.test(text[index + keyword.length] ?? ' ');
+}
+
+/**
+ * Finds the tactics in the given lines of a Lean file, the first of which is line `firstLine` of the file.
+ * This is a heuristic which does not parse Lean, it only knows that
+ * - tactic blocks start after `by`, and after `=>` in `case`, `next` and in match alternatives,
+ * - tactics are separated by `;` and `<;>` outside of brackets,
+ * - a tactic continues on the following lines that are indented more than its start or inside of its brackets,
+ * - a line that starts at column 0 starts a new declaration.
+ * Comments, strings and bullets are not part of any tactic. The returned ranges are in the order of the file.
+ *
+ * A tactic with a nested block, like `have h : p := by simp`, ends at the `by` and does not contain the block.
+ * The goals at its end are therefore those at the start of the nested block, e.g. `p`, and not the goals after
+ * the whole tactic. Ending it after its nested block would not help either, since it would then end where the last
+ * tactic of the block ends, and the server returns the goals after that one there.
+ */
+export function findTactics(lines: string[], firstLine: number = 0): TacticRange[] {
+    const tactics: TacticRange[] = [];
+    // the text of a declaration before its first `by` is its statement, not a tactic.
+    let inTactics = false;
+    let current: (TacticRange & { text: string }) | undefined;
+    let depth = 0;
+    let inString = false;
+    let commentDepth = 0;
+
+    const finish = () => {
+        // match alternatives only introduce the tactics after their `=>`.
+        if (current && !current.text.startsWith('|')) tactics.push({ start: current.start, end: current.end });
+        current = undefined;
+    };
+
+    lines.forEach((text, i) => {
+        const line = firstLine + i;
+        const indent = text.search(/\S/);
+        const startsWithCode = indent >= 0 && !inString && commentDepth === 0 &&
+            !text.startsWith('--', indent) && !text.startsWith('/-', indent);
+        if (startsWithCode && indent === 0) {
+            finish();
+            inTactics = false;
+            depth = 0;
+        } else if (startsWithCode && current && (text[indent] === '|' ||
+                depth === 0 && indent <= current.start.character)) {
+            finish();
+        }
+
+        let j = 0;
+        const extend = (length: number) => {
+            if (!current) current = { start: { line, character: j }, end: { line, character: j }, text: text.slice(j) };
+            j += length;
+            current.end = { line, character: j };
+        };
+        while (j < text.length) {
+            if (commentDepth > 0) {
+                if (text.startsWith('/-', j)) commentDepth++;
+                else if (text.startsWith('-/', j)) commentDepth--;
+                else { j++; continue; }
+                j += 2;
+            } else if (inString) {
+                const length = text[j] === '\\' ? 2 : 1;
+                if (text[j] === '"') inString = false;
+                if (inTactics) extend(length);
+                else j += length;
+            } else if (text.startsWith('--', j)) {
+                break;
+            } else if (text.startsWith('/-', j)) {
+                commentDepth++;
+                j += 2;
+            } else if (/\s/.test(text[j])) {
+                j++;
+            } else if (!inTactics) {
+                if (text[j] === '"') inString = true;
+                else if (isKeyword(text, j, 'by')) inTactics = true;
+                j += inTactics ? 2 : 1;
+            } else if (!current && (text[j] === '·' || text[j] === '.' && /\s/.test(text[j + 1] ?? ' '))) {
+                j++;
+            } else if (depth === 0 && text.startsWith('<;>', j)) {
+                finish();
+                j += 3;
+            } else if (depth === 0 && text[j] === ';') {
+                finish();
+                j++;
+            } else if (depth === 0 && (isKeyword(text, j, 'by') || text.startsWith('=>', j) &&
+                    current && /^(case|next)\b|^\|/.test(current.text))) {
+                // the nested tactics start after it.
+                extend(2);
+                finish();
+            } else {
+                if (text[j] === '"') inString = true;
+                else if (openingBrackets.includes(text[j])) depth++;
+                else if (closingBrackets.includes(text[j])) depth = Math.max(0, depth - 1);
+                extend(1);
+            }
+        }
+    });
+    finish();
+    return tactics;
+}
@@ -2,7 +2,7 @@
 import { Disposable } from 'vscode';
 import * as fs from 'fs';
 import * as os from 'os';
-import { join, sep } from 'path';
+import { dirname, join, sep } from 'path';
 
 export class TempFolder implements Disposable {
     folder : string;
@@ -13,6 +13,7 @@ export class TempFolder implements Disposable {
 
     createFile(fileName : string, data : string) : string {
         const path = join(this.folder, fileName)
+        fs.mkdirSync(dirname(path), { recursive: true });
         fs.writeFileSync(path, data, { encoding: 'utf8'});
         return path;
     }
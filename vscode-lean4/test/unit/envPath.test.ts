@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { delimiter } from 'path';
+import { envPathKey, extendEnv } from '../../src/utils/envPath';
+
+suite('extendEnv', () => {
+    test('prepends the paths to the search path of a copy', () => {
+        const env = { [envPathKey]: '/usr/bin', HOME: '/home/me' };
+        const extended = extendEnv(env, { LEAN_PATH: '/lib' }, ['/a', '/b']);
+        assert.deepStrictEqual(extended, { [envPathKey]: ['/a', '/b', '/usr/bin'].join(delimiter), HOME: '/home/me', LEAN_PATH: '/lib' });
+        assert.deepStrictEqual(env, { [envPathKey]: '/usr/bin', HOME: '/home/me' });
+        assert.deepStrictEqual(extendEnv({}, {}, ['/a']), { [envPathKey]: '/a' });
+    });
+
+    test('the paths of two packages are independent of each other', () => {
+        const searchPath = process.env[envPathKey];
+        const first = extendEnv(process.env, {}, ['/first']);
+        const second = extendEnv(process.env, {}, ['/second']);
+        const withoutPaths = extendEnv(process.env, {}, []);
+        assert.strictEqual(first[envPathKey], ['/first', searchPath].join(delimiter));
+        assert.strictEqual(second[envPathKey], ['/second', searchPath].join(delimiter));
+        assert.strictEqual(withoutPaths[envPathKey], searchPath);
+        assert.strictEqual(process.env[envPathKey], searchPath);
+    });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { suite, suiteSetup, suiteTeardown, test } from 'mocha';
+import * as os from 'os';
+import { dirname, join } from 'path';
+import { findImportClosure, findStaleModules, parseImports } from '../../src/utils/imports';
+
+suite('Imports', () => {
+    let pkg: string;
+
+    async function writeFile(path: string, contents: string, mtime: number) {
+        const file = join(pkg, path);
+        await fs.promises.mkdir(dirname(file), { recursive: true });
+        await fs.promises.writeFile(file, contents);
+        await fs.promises.utimes(file, mtime, mtime);
+    }
+
+    suiteSetup(async () => {
+        pkg = await fs.promises.mkdtemp(join(os.tmpdir(), 'lean4-imports-'));
+        // `Main` imports `Foo.A`, which imports `Foo.B`. Only `Foo.B` was built after its last change.
+        await writeFile('Main.lean', 'import Foo.A\n', 1000);
+        await writeFile('Foo/A.lean', 'import Foo.B\nimport Std\n', 1000);
+        await writeFile('Foo/B.lean', 'def b := 1\n', 1000);
+        await writeFile('build/lib/Foo/B.olean', '', 2000);
+        await writeFile('build/lib/Foo/A.olean', '', 500);
+    });
+
+    suiteTeardown(async () => {
+        await fs.promises.rm(pkg, { recursive: true, force: true });
+    });
+
+    test('the header of a file', () => {
+        assert.deepStrictEqual(parseImports('prelude\nimport Init.Data  -- comment\nimport «My Lib».Foo Bar\n\ndef x := 1\nimport Late'),
+            ['Init.Data', 'My Lib.Foo', 'Bar']);
+        assert.deepStrictEqual(parseImports('/- import Commented\n-/\nimport A\n/-- doc -/\ntheorem t : True := trivial'), ['A']);
+        assert.deepStrictEqual(parseImports('def x := 1'), []);
+    });
+
+    test('imports within the package', async () => {
+        const modules = await findImportClosure(pkg, 'import Foo.A\nimport Lean');
+        assert.deepStrictEqual(modules.map(m => [m.name, m.imports]), [['Foo.A', ['Foo.B']], ['Foo.B', []]]);
+        assert.strictEqual(modules[0].path, join(pkg, 'Foo', 'A.lean'));
+    });
+
+    test('modules that need to be rebuilt', async () => {
+        const modules = await findImportClosure(pkg, 'import Foo.A');
+        assert.deepStrictEqual((await findStaleModules(pkg, modules)).map(m => m.name), ['Foo.A']);
+
+        // a change of `Foo.B` makes everything importing it stale, imports first.
+        await fs.promises.utimes(join(pkg, 'Foo', 'B.lean'), 3000, 3000);
+        assert.deepStrictEqual((await findStaleModules(pkg, modules)).map(m => m.name), ['Foo.B', 'Foo.A']);
+    });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { suite, suiteSetup, suiteTeardown, test } from 'mocha';
+import * as os from 'os';
+import { join } from 'path';
+import { Message, RequestMessage, ResponseMessage } from 'vscode-languageserver-protocol';
+import { LspRecorder, readRecording, ReplayServer } from '../../src/utils/lspRecording';
+
+const recordedFolder = 'file:///home/alice/pkg';
+const replayedFolder = 'file:///tmp/lean4-replay-1';
+const position = { line: 3, character: 5 };
+const goals = { rendered: '⊢ 1 = 1', goals: ['⊢ 1 = 1'] };
+
+function request(id: number, method: string, params: any): RequestMessage {
+    return { jsonrpc: '2.0', id, method, params };
+}
+
+function response(id: number, result: any): ResponseMessage {
+    return { jsonrpc: '2.0', id, result };
+}
+
+suite('Replaying recorded sessions', () => {
+    let path: string;
+    let server: ReplayServer;
+
+    suiteSetup(async () => {
+        path = join(await fs.promises.mkdtemp(join(os.tmpdir(), 'lean4-recording-')), 'session.jsonl');
+        const recorder = new LspRecorder(path, { time: 0, folder: recordedFolder });
+        recorder.record('client', request(0, 'initialize', { processId: 1234, rootUri: recordedFolder, capabilities: {} }));
+        recorder.record('server', response(0, { capabilities: { hoverProvider: true } }));
+        recorder.record('client', { jsonrpc: '2.0', method: 'initialized', params: {} } as Message);
+        recorder.record('client', request(1, '$/lean/plainGoal', { textDocument: { uri: `${recordedFolder}/Main.lean` }, position }));
+        recorder.record('server', response(1, goals));
+        recorder.record('client', request(2, '$/lean/rpc/call', {
+            textDocument: { uri: `${recordedFolder}/Main.lean` }, position,
+            sessionId: '17', method: 'Lean.Widget.getInteractiveGoals', params: { textDocument: { uri: `${recordedFolder}/Main.lean` }, position },
+        }));
+        recorder.record('server', response(2, { goals: [] }));
+        recorder.dispose();
+        await recorder.closed;
+
+        const [header, messages] = await readRecording(path, replayedFolder);
+        assert.strictEqual(header.folder, recordedFolder);
+        server = new ReplayServer(messages, replayedFolder);
+    });
+
+    suiteTeardown(async () => {
+        server.dispose();
+        await fs.promises.rm(join(path, '..'), { recursive: true, force: true });
+    });
+
+    /** Sends `msg` to the replay server and returns the messages it answered with. */
+    function send(msg: Message): Message[] {
+        const received: Message[] = [];
+        const { reader, writer } = server.connect();
+        reader.listen(m => received.push(m));
+        void writer.write(msg);
+        return received;
+    }
+
+    test('answers initialize of another process and root', () => {
+        const answers = send(request(7, 'initialize', { processId: 42, rootUri: replayedFolder, capabilities: { window: {} } }));
+        assert.deepStrictEqual(answers, [response(7, { capabilities: { hoverProvider: true } })]);
+    });
+
+    test('answers requests about the same position of the replayed file', () => {
+        const params = { textDocument: { uri: `${replayedFolder}/Main.lean`, version: 2 }, position };
+        assert.deepStrictEqual(send(request(8, '$/lean/plainGoal', params)), [response(8, goals)]);
+
+        const other = send(request(9, '$/lean/plainGoal', { ...params, position: { line: 0, character: 0 } }));
+        assert.strictEqual((other[0] as ResponseMessage).error?.code, -32603);
+    });
+
+    test('answers RPC calls of another session', () => {
+        const answers = send(request(10, '$/lean/rpc/call', {
+            textDocument: { uri: `${replayedFolder}/Main.lean` }, position,
+            sessionId: '4711', method: 'Lean.Widget.getInteractiveGoals', params: { textDocument: { uri: `${replayedFolder}/Main.lean` }, position },
+        }));
+        assert.deepStrictEqual(answers, [response(10, { goals: [] })]);
+    });
+
+    test('replaces the recorded folder only where it is the whole folder', async () => {
+        const otherPath = join(path, '..', 'other.jsonl');
+        const recorder = new LspRecorder(otherPath, { time: 0, folder: recordedFolder });
+        recorder.record('client', request(0, 'test', {
+            uris: [recordedFolder, `${recordedFolder}/Main.lean`, `${recordedFolder}2/Main.lean`, `${recordedFolder}.old`],
+            message: `${recordedFolder}/Main.lean:1:0: error`,
+        }));
+        recorder.dispose();
+        await recorder.closed;
+
+        const [, messages] = await readRecording(otherPath, replayedFolder);
+        assert.deepStrictEqual((messages[0].message as RequestMessage).params, {
+            uris: [replayedFolder, `${replayedFolder}/Main.lean`, `${recordedFolder}2/Main.lean`, `${recordedFolder}.old`],
+            message: `${replayedFolder}/Main.lean:1:0: error`,
+        });
+    });
+});
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { ChildProcess, spawn } from 'child_process';
+import { suite, suiteSetup, suiteTeardown, test } from 'mocha';
+import { getProcessTree, isProcessInfoSupported } from '../../src/utils/processInfo';
+
+suite('Process info', () => {
+    let child: ChildProcess;
+
+    suiteSetup(function () {
+        if (!isProcessInfoSupported()) this.skip();
+        child = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 10000)', 'lean4-process-info-test']);
+    });
+
+    suiteTeardown(() => {
+        child?.kill();
+    });
+
+    test('the process and its children', async () => {
+        const tree = await getProcessTree(process.pid);
+        assert.strictEqual(tree[0].pid, process.pid);
+        assert.ok(tree[0].rss > 0);
+        assert.ok(tree[0].cpuTime > 0);
+
+        const childStats = tree.find(p => p.pid === child.pid);
+        assert.ok(childStats);
+        assert.strictEqual(childStats.ppid, process.pid);
+        assert.deepStrictEqual(childStats.args.slice(1), ['-e', 'setTimeout(() => {}, 10000)', 'lean4-process-info-test']);
+    });
+
+    test('processes that do not exist', async () => {
+        assert.deepStrictEqual(await getProcessTree(-1), []);
+    });
+});
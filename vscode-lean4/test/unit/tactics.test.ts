@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { findTactics } from '../../src/utils/tactics';
+
+/** The text of the tactics found in the given lines. */
+function tacticTexts(lines: string[]): string[] {
+    return findTactics(lines).map(({ start, end }) => start.line === end.line ?
+        lines[start.line].slice(start.character, end.character) :
+        [lines[start.line].slice(start.character), ...lines.slice(start.line + 1, end.line), lines[end.line].slice(0, end.character)].join('\n'));
+}
+
+suite('findTactics', () => {
+    test('one tactic per line after the statement', () => {
+        const lines = [
+            'theorem foo (n : Nat) : n + 0 = n := by',
+            '  induction n',
+            '  · rfl',
+            '  · simp  -- done',
+        ];
+        assert.deepStrictEqual(tacticTexts(lines), ['induction n', 'rfl', 'simp']);
+        assert.deepStrictEqual(findTactics(lines, 10)[0], {
+            start: { line: 11, character: 2 },
+            end: { line: 11, character: 13 },
+        });
+    });
+
+    test('`by` at the end of the statement', () => {
+        assert.deepStrictEqual(tacticTexts(['example : 1 = 1 := by rfl']), ['rfl']);
+        assert.deepStrictEqual(tacticTexts(['example : True := by_cases_lemma']), []);
+        assert.deepStrictEqual(tacticTexts(['example : True := by by_cases h : p <;> simp']), ['by_cases h : p', 'simp']);
+    });
+
+    test('comments and strings', () => {
+        const lines = [
+            'example : s = "--" := by',
+            '  simp [show "a--b;c" = s from rfl] -- a comment; with a semicolon',
+            '  /- a comment',
+            '     by foo -/',
+            '  rfl /- inline -/',
+        ];
+        assert.deepStrictEqual(tacticTexts(lines), ['simp [show "a--b;c" = s from rfl]', 'rfl']);
+    });
+
+    test('sequences of tactics', () => {
+        assert.deepStrictEqual(tacticTexts(['example : p := by', '  constructor; (first | simp; rfl) <;> assumption']),
+            ['constructor', '(first | simp; rfl)', 'assumption']);
+    });
+
+    test('tactics over several lines', () => {
+        const lines = [
+            'example : a = c := by',
+            '  rw [foo,',
+            '        bar]',
+            '  exact',
+            '    trans',
+            '      h₁ h₂',
+            '',
+            '  done',
+        ];
+        assert.deepStrictEqual(tacticTexts(lines), ['rw [foo,\n        bar]', 'exact\n    trans\n      h₁ h₂', 'done']);
+    });
+
+    test('nested tactic blocks', () => {
+        const lines = [
+            'example : p ∧ q := by',
+            '  have h : p := by simp',
+            '  cases h with',
+            '  | inl h => exact h',
+            '  | inr h =>',
+            '    apply foo',
+            '  case right => rfl',
+            'def bar := 1',
+        ];
+        assert.deepStrictEqual(tacticTexts(lines),
+            ['have h : p := by', 'simp', 'cases h with', 'exact h', 'apply foo', 'case right =>', 'rfl']);
+    });
+});
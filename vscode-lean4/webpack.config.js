@@ -88,6 +88,8 @@ function getExtensionConfig(env) {
 			extensions: ['.tsx', '.ts', '.js'],
 			alias: {
 				'node-fetch': path.resolve(__dirname, 'node_modules/node-fetch/lib/index.js'),
+				// share the protocol implementation of vscode-languageclient with @leanprover/lean4-client, which depends on the same version
+				'vscode-languageserver-protocol': path.resolve(__dirname, 'node_modules/vscode-languageserver-protocol'),
 			}
 		},
 		devtool: env.production ? undefined : 'source-map',